@@ -0,0 +1,52 @@
+import { HookComponent } from '../utils/hooks';
+import { html } from '../utils/jsx-vdom';
+import { VNode } from '../utils/vdom';
+
+type TCounterProps = {
+	initial?: number;
+};
+
+export default class Counter extends HookComponent {
+	constructor(props: TCounterProps = {}) {
+		super(props, 'counter-component');
+	}
+
+	protected render = (): VNode => {
+		const { initial = 0 } = this.props as TCounterProps;
+		const [count, setCount] = this.useState(initial);
+
+		return html`
+			<div>
+				<p class="counter-description">
+					This counter is an island: the only part of the page hydrated in the
+					browser.
+				</p>
+
+				<div class="counter-display">
+					<h2>Count: ${count}</h2>
+				</div>
+
+				<div class="counter-controls">
+					<button
+						class="counter-button decrement"
+						onclick=${() => setCount(count - 1)}
+					>
+						-
+					</button>
+					<button
+						class="counter-button reset"
+						onclick=${() => setCount(initial)}
+					>
+						Reset
+					</button>
+					<button
+						class="counter-button increment"
+						onclick=${() => setCount(count + 1)}
+					>
+						+
+					</button>
+				</div>
+			</div>
+		`;
+	};
+}
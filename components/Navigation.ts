@@ -1,6 +1,8 @@
 import { Component } from '../utils/component';
-import { html } from '../utils/jsx-vdom';
-import { VNode } from '../utils/vdom';
+import { html, useComponent } from '../utils/jsx-vdom';
+import { VNode, portal } from '../utils/vdom';
+import { Notification } from './Notification';
+import { ThemeSwitcher } from './ThemeSwitcher';
 
 type NavLink = {
 	text: string;
@@ -17,6 +19,8 @@ export class Navigation extends Component {
 
 	protected render(): VNode {
 		// Using our template literal JSX with VDOM
+		// The theme switcher and notifications are positioned over the page,
+		// so they are rendered into the body
 		return html`
 			<ul class="nav-list">
 				${this.links.map((link) => {
@@ -32,6 +36,13 @@ export class Navigation extends Component {
 					`;
 				})}
 			</ul>
+			${portal(
+				[
+					useComponent(ThemeSwitcher, undefined, 'theme-switcher'),
+					useComponent(Notification, undefined, 'notification'),
+				],
+				document.body
+			)}
 		`;
 	}
 
@@ -15,6 +15,7 @@ type Particle = {
 export class Particles extends Component {
 	private particles: Particle[] = [];
 	private canvas: HTMLCanvasElement | null = null;
+	private canvasRef: { current: HTMLCanvasElement | null } = { current: null };
 	private ctx: CanvasRenderingContext2D | null = null;
 	private animationId: number = 0;
 	private mousePosition = { x: 0, y: 0 };
@@ -48,10 +49,8 @@ export class Particles extends Component {
 	}
 
 	private initCanvas = (): void => {
-		// Get the canvas from the DOM after render
-		this.canvas = this.element.querySelector(
-			'.particles-canvas'
-		) as HTMLCanvasElement;
+		// The canvas ref is set when the canvas is rendered
+		this.canvas = this.canvasRef.current;
 		if (!this.canvas) return;
 
 		// Get context
@@ -131,21 +130,21 @@ export class Particles extends Component {
 		if (!this.canvas) return;
 
 		// Resize handler
+		// Mouse tracking handlers are set as props on the canvas in render
 		window.addEventListener('resize', this.handleResize);
 
-		// Mouse movement tracking
-		this.canvas.addEventListener('mousemove', this.handleMouseMove);
-		this.canvas.addEventListener('mouseenter', () => {
-			this.isMouseOver = true;
-		});
-		this.canvas.addEventListener('mouseleave', () => {
-			this.isMouseOver = false;
-		});
-
 		// Allow pointer events on canvas only
 		this.canvas.style.pointerEvents = 'auto';
 	};
 
+	private handleMouseEnter = (): void => {
+		this.isMouseOver = true;
+	};
+
+	private handleMouseLeave = (): void => {
+		this.isMouseOver = false;
+	};
+
 	private handleResize = (): void => {
 		this.resizeCanvas();
 	};
@@ -290,7 +289,15 @@ export class Particles extends Component {
 	};
 
 	protected render = (): void => {
-		const content = html` <canvas class="particles-canvas"></canvas> `;
+		const content = html`
+			<canvas
+				class="particles-canvas"
+				ref=${this.canvasRef}
+				onmousemove:passive=${this.handleMouseMove}
+				onmouseenter=${this.handleMouseEnter}
+				onmouseleave=${this.handleMouseLeave}
+			></canvas>
+		`;
 		this.replaceContents(content);
 	};
 
@@ -301,10 +308,6 @@ export class Particles extends Component {
 
 		window.removeEventListener('resize', this.handleResize);
 
-		if (this.canvas) {
-			this.canvas.removeEventListener('mousemove', this.handleMouseMove);
-		}
-
 		if (this.unsubscribe) {
 			this.unsubscribe();
 		}
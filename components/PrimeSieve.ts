@@ -0,0 +1,58 @@
+import { HookComponent } from '../utils/hooks';
+import { html } from '../utils/jsx-vdom';
+import { VNode } from '../utils/vdom';
+
+/**
+ * Find the primes up to a limit with the sieve of Eratosthenes
+ */
+const findPrimes = (limit: number): number[] => {
+	const composite = new Uint8Array(limit + 1);
+	const primes: number[] = [];
+
+	for (let i = 2; i <= limit; i++) {
+		if (composite[i]) {
+			continue;
+		}
+		primes.push(i);
+		for (let multiple = i * i; multiple <= limit; multiple += i) {
+			composite[multiple] = 1;
+		}
+	}
+
+	return primes;
+};
+
+export default class PrimeSieve extends HookComponent {
+	constructor() {
+		super('div', 'prime-sieve');
+	}
+
+	protected render = (): VNode => {
+		const [limit, setLimit] = this.useState(1000000);
+
+		// Slow for large limits, which is why this runs in a Worker
+		const primes = this.useMemo(() => findPrimes(limit), [limit]);
+
+		return html`
+			<div>
+				<label for="prime-limit">Primes up to ${limit.toLocaleString()}</label>
+				<input
+					id="prime-limit"
+					type="range"
+					min="100000"
+					max="20000000"
+					step="100000"
+					value=${limit}
+					oninput=${(e: Event) => {
+						const input = e.target as HTMLInputElement;
+						setLimit(parseInt(input.value) || 100000);
+					}}
+				/>
+				<p>
+					Found <strong>${primes.length.toLocaleString()}</strong> primes, the
+					largest is ${primes[primes.length - 1]}
+				</p>
+			</div>
+		`;
+	};
+}
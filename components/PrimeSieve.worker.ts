@@ -0,0 +1,9 @@
+/**
+ * Worker rendering the prime sieve of the Hooks Counter page
+ * Its renders are slow, here they don't block input on the page.
+ */
+
+import { renderInWorker } from '../utils/worker-renderer';
+import PrimeSieve from './PrimeSieve';
+
+renderInWorker(() => new PrimeSieve());
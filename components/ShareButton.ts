@@ -0,0 +1,36 @@
+import { Component } from '../utils/component';
+import { html } from '../utils/jsx-vdom';
+import { Notification } from './Notification';
+
+type TShareButtonProps = {
+	label?: string;
+};
+
+export default class ShareButton extends Component {
+	constructor(props: TShareButtonProps = {}) {
+		super(props, 'share-button');
+	}
+
+	/**
+	 * Copy the link of the current page to the clipboard
+	 */
+	private handleShare = async (): Promise<void> => {
+		try {
+			await navigator.clipboard.writeText(window.location.href);
+			Notification.show('Link copied to the clipboard', 'success');
+		} catch (error) {
+			console.error('Error copying link:', error);
+			Notification.show("The link couldn't be copied", 'error');
+		}
+	};
+
+	protected render() {
+		const { label = 'Share this page' } = this.props as TShareButtonProps;
+
+		return html`
+			<button class="counter-button increment" onclick=${this.handleShare}>
+				${label}
+			</button>
+		`;
+	}
+}
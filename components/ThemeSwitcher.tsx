@@ -1,5 +1,5 @@
 import { Component } from '../utils/component';
-import { html } from '../utils/jsx-vdom';
+import { jsx } from '../utils/jsx-runtime';
 import { AppState, appStore } from '../utils/store';
 
 export class ThemeSwitcher extends Component {
@@ -54,14 +54,14 @@ export class ThemeSwitcher extends Component {
 		const icon = this.currentTheme === 'light' ? '🌙' : '☀️';
 		const text = this.currentTheme === 'light' ? 'Dark Mode' : 'Light Mode';
 
-		return html`
+		return (
 			<button
 				class="theme-toggle-button"
-				onclick=${this.handleThemeToggle.bind(this)}
+				onclick={this.handleThemeToggle.bind(this)}
 			>
-				<span>${icon}</span> ${text}
+				<span>{icon}</span> {text}
 			</button>
-		`;
+		);
 	}
 
 	/**
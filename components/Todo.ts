@@ -17,13 +17,15 @@ export class TodoList extends HookComponent {
 	protected render = (): VNode => {
 		const [todos, setTodos] = this.useState<TodoItem[]>([]);
 		const [nextId, setNextId] = this.useState(1);
+		const [inputValue, setInputValue] = this.useState('');
+
+		const handleInput = (e: Event) => {
+			setInputValue((e.target as HTMLInputElement).value);
+		};
 
 		const handleSubmit = (e: Event) => {
 			e.preventDefault();
-			const input = this.element.querySelector(
-				'.todo-input'
-			) as HTMLInputElement;
-			const text = input.value.trim();
+			const text = inputValue.trim();
 
 			if (text) {
 				const newTodo = {
@@ -35,8 +37,7 @@ export class TodoList extends HookComponent {
 				const newTodos = [...todos, newTodo];
 				setTodos(newTodos);
 				setNextId(nextId + 1);
-
-				input.value = '';
+				setInputValue('');
 
 				Notification.show('Todo added successfully', 'success');
 			} else {
@@ -86,7 +87,7 @@ export class TodoList extends HookComponent {
 						<input
 							type="checkbox"
 							class="todo-checkbox"
-							${todo.completed ? 'checked' : ''}
+							checked=${todo.completed}
 							onclick=${handleToggle}
 						/>
 						<span class="todo-text">${todo.text}</span>
@@ -107,6 +108,8 @@ export class TodoList extends HookComponent {
 						type="text"
 						placeholder="Add a new todo..."
 						class="todo-input"
+						value="${inputValue}"
+						oninput=${handleInput}
 					/>
 					<button type="submit" class="todo-submit">Add</button>
 				</form>
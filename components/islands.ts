@@ -0,0 +1,19 @@
+/**
+ * Interactive widgets of the static pages
+ * Each one is loaded from its own chunk when its island is hydrated.
+ * The entry point imports this module, so prerendered pages can hydrate
+ * their islands without loading the page itself.
+ */
+
+import { island } from '../utils/islands';
+
+export const CounterIsland = island(
+	'counter',
+	() => import(/* webpackChunkName: "counter-island" */ './Counter')
+);
+
+export const ShareButtonIsland = island(
+	'share-button',
+	() => import(/* webpackChunkName: "share-button-island" */ './ShareButton'),
+	{ hydrate: 'idle' }
+);
@@ -1,5 +1,6 @@
 import { Component } from '../../utils/component';
-import { html } from '../../utils/jsx-vdom';
+import { html, useComponent } from '../../utils/jsx-vdom';
+import { ShareButtonIsland } from '../islands';
 
 export default class AboutPage extends Component {
 	constructor() {
@@ -40,6 +41,8 @@ export default class AboutPage extends Component {
 						demonstrate those core concepts while still using modern techniques.
 					</p>
 				</div>
+
+				${useComponent(ShareButtonIsland, {}, 'about-share')}
 			</div>
 		`;
 
@@ -1,10 +1,13 @@
 import { HookComponent, createContext } from '../../utils/hooks';
-import { html, useComponent } from '../../utils/jsx-vdom';
+import { html } from '../../utils/jsx-vdom';
+import { VNode } from '../../utils/vdom';
 
 const ThemeContext = createContext<'light' | 'dark'>('light', 'theme');
 
 type TThemedBoxProps = {
 	message?: string;
+	// Header, footer and default slots, see Component.slot()
+	children?: VNode[];
 };
 
 // Regular component class, not implementing the constructor type
@@ -21,10 +24,16 @@ class ThemedBox extends HookComponent {
 
 		return html`
 			<div class="box ${theme}">
-				<p>${this.message}</p>
+				${this.slot('header', html`<h3>Themed box</h3>`)}
+				${this.slot('default', html`<p>${this.message}</p>`)}
 				<p class="theme-details">
 					The component automatically re-renders when context changes
 				</p>
+				${
+					this.hasSlot('footer')
+						? html`<footer>${this.slot('footer')}</footer>`
+						: null
+				}
 			</div>
 		`;
 	}
@@ -34,6 +43,8 @@ type TRefCounterProps = {
 	initialCount?: number;
 	label?: string;
 	countFromOutside: number;
+	// Shown under the title, in the default slot
+	children?: VNode[];
 };
 
 class RefCounter extends HookComponent {
@@ -67,6 +78,7 @@ class RefCounter extends HookComponent {
 		return html`
 			<div class="counter-section">
 				<h3>useRef, useMemo & useCallback Demo</h3>
+				${this.slot()}
 				<p>${this.label}: ${count}</p>
 				<p>Count from outside: ${this.props.countFromOutside}</p>
 				<p>Square value (memoized): ${expensiveValue}</p>
@@ -95,32 +107,34 @@ export default class AdvancedHooksPage extends HookComponent {
 					<button class="btn" onclick=${() => setCount(count + 1)}>
 						Increment
 					</button>
+					<${ThemedBox} key="themed-box">
+						<h3 slot="header">Projected content</h3>
+						<p>The page passes its count to the box: ${count}</p>
+					</${ThemedBox}>
 				</section>
 
 				<section class="ref-memo-section">
 					<h2>useRef, useMemo & useCallback Example</h2>
-					${useComponent(
-						RefCounter,
-						{
-							initialCount: 50,
-							label: 'Custom Counter',
-							countFromOutside: count,
-						},
-						'counter-1'
-					)}
+					<${RefCounter}
+						key="counter-1"
+						initialCount=${50}
+						label="Custom Counter"
+						countFromOutside=${count}
+					>
+						<p>
+							Each click updates the state three times in a single render
+						</p>
+					</${RefCounter}>
 				</section>
 
 				<section class="ref-memo-section">
 					<h2>Another Counter with Different Props</h2>
-					${useComponent(
-						RefCounter,
-						{
-							initialCount: 20,
-							label: 'Another Counter',
-							countFromOutside: count,
-						},
-						'counter-2'
-					)}
+					<${RefCounter}
+						key="counter-2"
+						initialCount=${20}
+						label="Another Counter"
+						countFromOutside=${count}
+					/>
 				</section>
 			</div>
 		`;
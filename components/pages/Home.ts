@@ -1,5 +1,6 @@
 import { Component } from '../../utils/component';
-import { html } from '../../utils/jsx-vdom';
+import { html, useComponent } from '../../utils/jsx-vdom';
+import { CounterIsland } from '../islands';
 
 export default class HomePage extends Component {
 	constructor() {
@@ -33,6 +34,11 @@ export default class HomePage extends Component {
 						)}
 					</ul>
 				</div>
+
+				<div class="counter-section">
+					<h2>Try It</h2>
+					${useComponent(CounterIsland, { initial: 0 }, 'home-counter')}
+				</div>
 			</div>
 		`;
 	};
@@ -1,5 +1,13 @@
 import { HookComponent } from '../../utils/hooks';
-import { html } from '../../utils/jsx-vdom';
+import { html, useComponent } from '../../utils/jsx-vdom';
+import { WorkerView } from '../../utils/worker-applier';
+
+// Renders the prime sieve off the main thread
+const createPrimeSieveWorker = () =>
+	new Worker(
+		/* webpackChunkName: "prime-sieve-worker" */
+		new URL('../PrimeSieve.worker.ts', import.meta.url)
+	);
 
 export default class HooksCounterPage extends HookComponent {
 	constructor() {
@@ -70,6 +78,19 @@ export default class HooksCounterPage extends HookComponent {
 						global state.
 					</p>
 				</div>
+
+				<div class="worker-section">
+					<h3>Rendered in a Worker:</h3>
+					<p>
+						This sieve is a hook component rendered inside a Web Worker. Moving
+						the slider stays smooth while it counts primes.
+					</p>
+					${useComponent(
+						WorkerView,
+						{ createWorker: createPrimeSieveWorker },
+						'prime-sieve-worker'
+					)}
+				</div>
 			</div>
 		`;
 	}
@@ -0,0 +1,54 @@
+import { HttpClient } from '../../utils/http';
+import { HookComponent } from '../../utils/hooks';
+import { html, useComponent } from '../../utils/jsx-vdom';
+import { SchemaView, TSchemaActionHandler } from '../../utils/schema-ui';
+import { Notification } from '../Notification';
+// Registers the components screens may use
+import '../schema-components';
+
+// Screens are served as JSON files next to the app, like a backend would
+const screens = new HttpClient('/screens');
+
+// Actions the events of a screen may call
+const actions: Record<string, TSchemaActionHandler> = {
+	notify: (_event, message) => Notification.show(String(message), 'info', 3000),
+};
+
+export default class ScreenPage extends HookComponent {
+	constructor() {
+		super('div', 'page screen-page');
+	}
+
+	protected render() {
+		const [screen, setScreen] = this.useState<unknown>(null);
+		const [error, setError] = this.useState<string | null>(null);
+
+		this.useEffect(() => {
+			screens.get<unknown>('/welcome.json').then(setScreen, (reason) => {
+				setError(
+					reason instanceof Error ? reason.message : 'An error occurred'
+				);
+			});
+		}, []);
+
+		let content;
+		if (error) {
+			content = html`<p class="error-message">Error: ${error}</p>`;
+		} else if (!screen) {
+			content = html`<p>Loading screen...</p>`;
+		} else {
+			content = useComponent(SchemaView, { screen, actions }, 'welcome-screen');
+		}
+
+		return html`
+			<div>
+				<h1>Server-Driven Screen</h1>
+				<p>
+					The content below is described by a JSON screen, validated and then
+					rendered with the components registered for screens.
+				</p>
+				${content}
+			</div>
+		`;
+	}
+}
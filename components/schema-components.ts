@@ -0,0 +1,25 @@
+/**
+ * Components server-driven screens may use, see utils/schema-ui.ts
+ * Import this module before rendering a screen. The widgets of lazy pages
+ * are loaded from their page's chunk when a screen first uses them.
+ */
+
+import { registerSchemaComponent } from '../utils/schema-ui';
+import { lazy } from '../utils/suspense';
+import { Notification } from './Notification';
+
+registerSchemaComponent(
+	'TodoList',
+	lazy<{}>(() =>
+		import(/* webpackChunkName: "todo-page" */ './Todo').then((module) => ({
+			default: module.TodoList,
+		}))
+	)
+);
+
+registerSchemaComponent('Notification', Notification);
+
+registerSchemaComponent(
+	'UsersPage',
+	lazy(() => import(/* webpackChunkName: "users-page" */ './pages/UsersPage'))
+);
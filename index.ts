@@ -4,39 +4,15 @@ import './styles/main.css';
 console.time('App Initialization');
 
 // Import core components and utilities
-import { KeyExample } from './components/examples/KeyExample';
 import { Navigation } from './components/Navigation';
 import { Notification } from './components/Notification';
-import HomePage from './components/pages/Home';
-import NotFoundPage from './components/pages/NotFound';
 import { Particles } from './components/Particles';
-import { ThemeSwitcher } from './components/ThemeSwitcher';
+// Defines the islands that prerendered static pages hydrate
+import './components/islands';
+import { registerRoutes } from './routes';
 import { Router } from './utils/router';
 import { appStore } from './utils/store';
 
-const PageLoaders = {
-	TodoPage: () =>
-		import(/* webpackChunkName: "todo-page" */ './components/pages/TodoPage'),
-	UsersPage: () =>
-		import(/* webpackChunkName: "users-page" */ './components/pages/UsersPage'),
-	AboutPage: () =>
-		import(/* webpackChunkName: "about-page" */ './components/pages/About'),
-	HooksCounterPage: () =>
-		import(
-			/* webpackChunkName: "hooks-counter-page" */ './components/pages/HooksCounterPage'
-		),
-	AdvancedHooksPage: () =>
-		import(
-			/* webpackChunkName: "advanced-hooks-page" */ './components/pages/AdvancedHooksPage'
-		),
-};
-
-// Generic loader function with proper typing
-const loadPage =
-	<T extends keyof typeof PageLoaders>(pageName: T) =>
-	() =>
-		PageLoaders[pageName]().then((module) => ({ default: module.default }));
-
 // Wait for DOM to be fully loaded
 document.addEventListener('DOMContentLoaded', () => {
 	const root = document.getElementById('app') as HTMLElement;
@@ -57,36 +33,20 @@ document.addEventListener('DOMContentLoaded', () => {
 		{ text: 'Hooks Counter', path: '/hooks-counter' },
 		{ text: 'Advanced Hooks', path: '/advanced-hooks' },
 		{ text: 'Users', path: '/users' },
+		{ text: 'Screen', path: '/screen' },
 		{ text: 'Key Example', path: '/key-example' },
 		{ text: 'About', path: '/about' },
 	]);
 
 	navContainer.replaceWith(nav.getElement());
 
-	const themeSwitcher = new ThemeSwitcher();
-	document.body.appendChild(themeSwitcher.getElement());
-
-	const notification = new Notification();
-	document.body.appendChild(notification.getElement());
-
 	// Show welcome notification
 	setTimeout(() => {
 		Notification.show('Welcome to Vanilla TS SPA!', 'success');
 	}, 1000);
 
-	const router = new Router(root);
-
-	// Configure routes with lazy loading for less frequent pages
-	router
-		.add('/', () => new HomePage())
-		.addLazy('/todo', loadPage('TodoPage'))
-		.addLazy('/hooks-counter', loadPage('HooksCounterPage'))
-		.addLazy('/advanced-hooks', loadPage('AdvancedHooksPage'))
-		.addLazy('/users', loadPage('UsersPage'))
-		.add('/key-example', () => new KeyExample())
-		.addLazy('/about', loadPage('AboutPage'))
-		.setDefault(() => new NotFoundPage());
-
+	// The routes are shared with the prerender step, see routes.ts
+	const router = registerRoutes(new Router(root));
 	router.init();
 
 	// Add interactive background AFTER router init
@@ -0,0 +1,190 @@
+/**
+ * Prerender step of the build
+ * Renders every route to static HTML without a browser and writes it into
+ * the page shell webpack emitted, as dist/<path>/index.html. The service
+ * worker's precache list is then generated from the files in dist.
+ * Run after the client build: npm run prerender
+ */
+
+import { createHash } from 'crypto';
+import {
+	mkdirSync,
+	readFileSync,
+	readdirSync,
+	statSync,
+	writeFileSync,
+} from 'fs';
+import { dirname, join, relative, sep } from 'path';
+import { registerRoutes } from './routes';
+import { preloadIslands } from './utils/islands';
+import { clearComponentCache } from './utils/jsx-vdom';
+import { Route, RouteTable } from './utils/router';
+import { escapeAttribute, escapeText, renderToString } from './utils/ssr';
+
+// Output directory of the client build
+const DIST_DIR = join(process.cwd(), 'dist');
+
+// Files in dist that are not precached
+const NOT_PRECACHED = [/^service-worker\.js$/, /\.map$/, /\.LICENSE\.txt$/];
+
+/**
+ * Get the file a route's page is written to
+ * The default route becomes 404.html, which static hosts serve for
+ * unknown paths
+ */
+const getOutputFile = (route: Route): string => {
+	if (route.path === '**') {
+		return join(DIST_DIR, '404.html');
+	}
+	return join(DIST_DIR, ...route.path.split('/').filter(Boolean), 'index.html');
+};
+
+/**
+ * Set the content of a <meta name="..."> in the head of a page
+ */
+const setMeta = (page: string, name: string, content: string): string => {
+	const meta = `<meta name="${name}" content="${escapeAttribute(content)}">`;
+	const pattern = new RegExp(`<meta\\s+name="${name}"[^>]*>`);
+
+	return pattern.test(page)
+		? page.replace(pattern, () => meta)
+		: page.replace('</head>', () => `${meta}</head>`);
+};
+
+/**
+ * Render the page of a route into the page shell
+ * A page that fails to render is left empty, it is rendered in the browser
+ */
+const renderPage = async (
+	table: RouteTable,
+	route: Route,
+	shell: string
+): Promise<string> => {
+	let markup = '';
+	try {
+		// Like navigating, pages don't share the components they created
+		clearComponentCache();
+		markup = renderToString(await table.loadPage(route));
+	} catch (error) {
+		console.error(`Error prerendering ${route.path}:`, error);
+	}
+
+	let page = shell
+		.replace(
+			/<title>[\s\S]*?<\/title>/,
+			() => `<title>${escapeText(table.getTitle(route))}</title>`
+		)
+		.replace(
+			/(<main id="app"[^>]*>)[\s\S]*?(<\/main>)/,
+			(_, open: string, close: string) => `${open}${markup}${close}`
+		);
+
+	if (route.description) {
+		page = setMeta(page, 'description', route.description);
+	}
+
+	return page;
+};
+
+/**
+ * List the files in a directory and its subdirectories
+ */
+const listFiles = (dir: string): string[] => {
+	return readdirSync(dir).flatMap((name) => {
+		const path = join(dir, name);
+		return statSync(path).isDirectory() ? listFiles(path) : [path];
+	});
+};
+
+/**
+ * Replace the match of a pattern in a file's content
+ * Throws if nothing matches, e.g. when the file was minified
+ */
+const replaceOnce = (
+	content: string,
+	pattern: RegExp,
+	replacement: string
+): string => {
+	if (!pattern.test(content)) {
+		throw new Error(`${pattern} not found in the service worker`);
+	}
+	return content.replace(pattern, () => replacement);
+};
+
+/**
+ * Write the precache list of the service worker from the files in dist
+ * Pages are listed by their path, and the cache name changes with the
+ * content of the files so a new build replaces the old cache
+ */
+const writePrecacheList = (): void => {
+	const workerFile = join(DIST_DIR, 'service-worker.js');
+	const hash = createHash('sha256');
+	const urls: string[] = [];
+
+	for (const file of listFiles(DIST_DIR).sort()) {
+		const name = relative(DIST_DIR, file).split(sep).join('/');
+		if (NOT_PRECACHED.some((pattern) => pattern.test(name))) {
+			continue;
+		}
+
+		hash.update(name).update(readFileSync(file));
+		urls.push(
+			name === 'index.html'
+				? '/'
+				: name.endsWith('/index.html')
+					? `/${name.slice(0, -'/index.html'.length)}`
+					: `/${name}`
+		);
+	}
+
+	const version = hash.digest('hex').slice(0, 8);
+	let worker = readFileSync(workerFile, 'utf8');
+	worker = replaceOnce(
+		worker,
+		/const CACHE_NAME = '[^']*';/,
+		`const CACHE_NAME = 'spa-cache-${version}';`
+	);
+	worker = replaceOnce(
+		worker,
+		/const ASSETS_TO_CACHE = \[[\s\S]*?\];/,
+		`const ASSETS_TO_CACHE = ${JSON.stringify(urls, null, '\t')};`
+	);
+
+	writeFileSync(workerFile, worker);
+	console.log(`Precache list: ${urls.length} files, version ${version}`);
+};
+
+const prerender = async (): Promise<void> => {
+	const table = registerRoutes(new RouteTable());
+	const routes = [...table.getRoutes()];
+	const defaultRoute = table.getDefaultRoute();
+	if (defaultRoute) {
+		routes.push(defaultRoute);
+	}
+
+	// The shell is read first, the home page is written over it
+	const shell = readFileSync(join(DIST_DIR, 'index.html'), 'utf8');
+
+	// Islands are rendered with their content instead of left empty
+	await preloadIslands();
+
+	for (const route of routes) {
+		const file = getOutputFile(route);
+		mkdirSync(dirname(file), { recursive: true });
+		writeFileSync(file, await renderPage(table, route, shell));
+		console.log(
+			`Prerendered ${route.path} -> ${relative(process.cwd(), file)}`
+		);
+	}
+
+	writePrecacheList();
+};
+
+prerender().then(
+	// Requests that pages started while rendering don't have to finish
+	() => process.exit(0),
+	(error) => {
+		console.error('Prerendering failed:', error);
+		process.exit(1);
+	}
+);
@@ -0,0 +1,78 @@
+/**
+ * Route table of the app
+ * Shared by the browser entry and the prerender step, which writes the
+ * static HTML of every route at build time
+ */
+
+import { KeyExample } from './components/examples/KeyExample';
+import HomePage from './components/pages/Home';
+import NotFoundPage from './components/pages/NotFound';
+import { RouteTable } from './utils/router';
+
+const PageLoaders = {
+	TodoPage: () =>
+		import(/* webpackChunkName: "todo-page" */ './components/pages/TodoPage'),
+	UsersPage: () =>
+		import(/* webpackChunkName: "users-page" */ './components/pages/UsersPage'),
+	AboutPage: () =>
+		import(/* webpackChunkName: "about-page" */ './components/pages/About'),
+	HooksCounterPage: () =>
+		import(
+			/* webpackChunkName: "hooks-counter-page" */ './components/pages/HooksCounterPage'
+		),
+	AdvancedHooksPage: () =>
+		import(
+			/* webpackChunkName: "advanced-hooks-page" */ './components/pages/AdvancedHooksPage'
+		),
+	ScreenPage: () =>
+		import(
+			/* webpackChunkName: "screen-page" */ './components/pages/ScreenPage'
+		),
+};
+
+// Generic loader function with proper typing
+const loadPage =
+	<T extends keyof typeof PageLoaders>(pageName: T) =>
+	() =>
+		PageLoaders[pageName]().then((module) => ({ default: module.default }));
+
+/**
+ * Add the app's routes to a router, or to a route table to walk them
+ */
+export const registerRoutes = <T extends RouteTable>(router: T): T =>
+	// Configure routes with lazy loading for less frequent pages
+	router
+		.add('/', () => new HomePage(), {
+			islands: true,
+			description: 'A single page application built with vanilla TypeScript',
+		})
+		.addLazy('/todo', loadPage('TodoPage'), {
+			title: 'Todo',
+			description: 'A todo list built with hook components',
+		})
+		.addLazy('/hooks-counter', loadPage('HooksCounterPage'), {
+			title: 'Hooks Counter',
+			description: 'A counter showing the useState and useEffect hooks',
+		})
+		.addLazy('/advanced-hooks', loadPage('AdvancedHooksPage'), {
+			title: 'Advanced Hooks',
+			description: 'Context, memoization and refs with custom hooks',
+		})
+		.addLazy('/users', loadPage('UsersPage'), {
+			title: 'Users',
+			description: 'Users loaded from an API with the HTTP client',
+		})
+		.addLazy('/screen', loadPage('ScreenPage'), {
+			title: 'Server-Driven Screen',
+			description: 'A screen rendered from JSON sent by the server',
+		})
+		.add('/key-example', () => new KeyExample(), {
+			title: 'Key Example',
+			description: 'How keys preserve list items and their state',
+		})
+		.addLazy('/about', loadPage('AboutPage'), {
+			islands: true,
+			title: 'About',
+			description: 'Why and how this SPA is built without frameworks',
+		})
+		.setDefault(() => new NotFoundPage(), { title: 'Page Not Found' });
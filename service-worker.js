@@ -2,6 +2,8 @@
 const CACHE_NAME = 'spa-cache-v1';
 
 // Assets to cache
+// The build replaces this list and the cache name with the files it
+// generated, see prerender.ts
 const ASSETS_TO_CACHE = [
 	'/',
 	'/index.html',
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Component } from './component';
+import { html } from './jsx-vdom';
+import { renderToString } from './ssr';
+import { VNode, VNodeComponent, mount } from './vdom';
+
+const nextFrame = () =>
+	new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+// Header and body slots with fallbacks, a footer only when one is given
+class Panel extends Component {
+	constructor(props: Record<string, any> = {}) {
+		super(props, 'panel');
+	}
+
+	protected render(): VNode {
+		return html`<header>${this.slot('header', 'Untitled')}</header>
+			<main>${this.slot('default', html`<em>Empty</em>`)}</main>
+			${this.hasSlot('footer') ? html`<footer>${this.slot('footer')}</footer>` : null}`;
+	}
+}
+
+describe('slots', () => {
+	it('project children into their named and default slots', () => {
+		const vnode = html`<${Panel}>
+			<h2 slot="header">Title</h2>
+			<p>First</p>
+			<span slot="footer">Footer</span>
+			<p>Second</p>
+		</${Panel}>`;
+
+		expect(renderToString(vnode).replace(/\s*\n\s*/g, '')).toBe(
+			'<div class="panel"><!--[-->' +
+				'<header><!--[--><h2 slot="header">Title</h2><!--]--></header>' +
+				'<main><!--[--><p>First</p><p>Second</p><!--]--></main>' +
+				'<footer><!--[--><span slot="footer">Footer</span><!--]--></footer>' +
+				'<!--]--></div>'
+		);
+	});
+
+	it('render the fallbacks of empty slots', () => {
+		const vnode = html`<${Panel} />`;
+
+		expect(renderToString(vnode).replace(/\s*\n\s*/g, '')).toBe(
+			'<div class="panel"><!--[-->' +
+				'<header><!--[-->Untitled<!--]--></header>' +
+				'<main><!--[--><em>Empty</em><!--]--></main>' +
+				'<!--]--></div>'
+		);
+	});
+
+	it('patch projected content when the parent renders new children', async () => {
+		const container = document.createElement('div');
+		const render = (title: string) =>
+			html`<${Panel} key="patched-panel"><h2 slot="header">${title}</h2></${Panel}>` as VNodeComponent;
+
+		mount(render('First'), container);
+		await nextFrame();
+		const heading = container.querySelector('h2')!;
+		expect(heading.textContent).toBe('First');
+
+		render('Second');
+		await nextFrame();
+		expect(container.querySelector('h2')).toBe(heading);
+		expect(heading.textContent).toBe('Second');
+	});
+});
@@ -1,5 +1,17 @@
+import { delegateEvents, getParentNode, setEventErrorHandler } from './events';
 import { cancelTask, scheduleTask } from './scheduler';
-import { VNode, createRealNode, patch } from './vdom';
+import {
+	TRef,
+	VNode,
+	VNodeElement,
+	canUseDOM,
+	createElement,
+	createFragment,
+	domRenderer,
+	hydrate,
+	patch,
+	setRef,
+} from './vdom';
 
 // Function for shallowEqual comparison
 const shallowEqual = (objA: any, objB: any): boolean => {
@@ -36,18 +48,137 @@ const shallowEqual = (objA: any, objB: any): boolean => {
 	return true;
 };
 
+// Part of a component's work an error was thrown from
+export type TErrorPhase = 'render' | 'effect' | 'event';
+
+export type TErrorInfo = {
+	component: Component; // Component the error was thrown in
+	phase: TErrorPhase;
+	boundary: Component | null; // Error boundary that caught it, if any
+};
+
+type ErrorListener = (error: unknown, info: TErrorInfo) => void;
+
+// Listeners notified of every error thrown in a component
+const errorListeners = new Set<ErrorListener>();
+
+type UpdateRequestListener = (component: Component) => void;
+
+// Listeners notified when a component without a DOM asks to be updated
+const updateRequestListeners = new Set<UpdateRequestListener>();
+
+// A render of a component, a new one each time its render method runs
+export type TRenderFrame = { component: Component };
+
+// Renders running, the innermost last
+const renderFrames: TRenderFrame[] = [];
+
+// Attribute carrying a component's serialized state in server markup
+export const HYDRATION_STATE_ATTRIBUTE = 'data-hydration-state';
+
+/**
+ * Parse the serialized state of a component's server markup
+ * Invalid state is reported and ignored, the component then renders from
+ * its initial state and hydrating patches the markup that doesn't match
+ */
+const parseHydrationState = (state: string): Record<string, any> | null => {
+	try {
+		const parsed = JSON.parse(state);
+		if (parsed !== null && typeof parsed === 'object') {
+			return parsed;
+		}
+		console.warn('Ignoring hydration state that is not an object:', state);
+	} catch (error) {
+		console.warn('Ignoring invalid hydration state:', error);
+	}
+	return null;
+};
+
+// Components by their host element, to find the component owning a node
+const componentElements = new WeakMap<Node, Component>();
+
+/**
+ * Subscribe to errors thrown in components, caught by a boundary or not
+ * Returns a function that removes the listener
+ */
+export const onComponentError = (listener: ErrorListener): (() => void) => {
+	errorListeners.add(listener);
+	return () => {
+		errorListeners.delete(listener);
+	};
+};
+
+/**
+ * Find the component whose element contains a node, the node included
+ * Follows portals back to where they were declared
+ */
+const findComponent = (node: Node | null): Component | null => {
+	while (node) {
+		const component = componentElements.get(node);
+		if (component) {
+			return component;
+		}
+		node = getParentNode(node);
+	}
+	return null;
+};
+
+/**
+ * Subscribe to updates requested by components without a DOM
+ * They can't render themselves, a renderer driving them (e.g. in a Worker)
+ * renders them again instead
+ * Returns a function that removes the listener
+ */
+export const onUpdateRequest = (
+	listener: UpdateRequestListener
+): (() => void) => {
+	updateRequestListeners.add(listener);
+	return () => {
+		updateRequestListeners.delete(listener);
+	};
+};
+
+/**
+ * Get the slot a child projected into a component goes to
+ * Whitespace between the children is in no slot
+ */
+const getSlotName = (child: VNode): string | null => {
+	if (child.type === 'text' && !child.text.trim()) {
+		return null;
+	}
+	if (child.type === 'element' && typeof child.props.slot === 'string') {
+		return child.props.slot;
+	}
+	return 'default';
+};
+
+/**
+ * Get the render running, if any
+ * Child components created during it belong to its component
+ */
+export const getCurrentRender = (): TRenderFrame | null => {
+	return renderFrames[renderFrames.length - 1] || null;
+};
+
 /**
  * Base Component class
  * All UI components should extend this class
  */
 export abstract class Component {
-	protected element: HTMLElement;
+	// Not created without a DOM, see renderToVNode()
+	protected element!: HTMLElement;
 	protected props: Record<string, any> = {};
 	protected isMounted: boolean = false;
 	private lastVNode: VNode | null = null;
 	private lastRenderResult: VNode | null = null;
 	private shouldUpdate: boolean = true;
 	private updateScheduled: number | null = null;
+	private attachedRef: TRef<any> | null = null;
+	private host: {
+		tagName: string;
+		className: string;
+		attributes: Record<string, string>;
+	};
 
 	constructor(
 		propsOrTagName: Record<string, any> | string = {},
@@ -64,8 +195,18 @@ export abstract class Component {
 			this.props = { ...propsOrTagName };
 		}
 
+		// Remember the host element, so it can be rendered without a DOM
+		this.host = { tagName, className, attributes };
+
+		// Without a DOM, e.g. when rendering to a string on the server,
+		// the component has no element and is only rendered on demand
+		if (!canUseDOM) {
+			return;
+		}
+
 		// Create DOM element
 		this.element = document.createElement(tagName);
+		componentElements.set(this.element, this);
 
 		// Add classes if provided
 		if (className) {
@@ -81,7 +222,7 @@ export abstract class Component {
 		// component is fully constructed before rendering
 		// Now using RAF scheduler
 		this.updateScheduled = scheduleTask(() => {
-			this.updateUI();
+			this.guard('render', () => this.updateUI());
 			this.updateScheduled = null;
 		});
 	}
@@ -100,6 +241,74 @@ export abstract class Component {
 		return this.element;
 	}
 
+	/**
+	 * Get the value a ref on this component receives
+	 * Defaults to the component itself, subclasses can expose a narrower handle
+	 */
+	public getRefHandle(): any {
+		return this;
+	}
+
+	/**
+	 * Attach the ref passed to this component's VNode (null to detach it)
+	 */
+	public attachRef(ref: TRef<any> | null): void {
+		if (this.attachedRef === ref) {
+			return;
+		}
+
+		setRef(this.attachedRef, null);
+		this.attachedRef = ref;
+		setRef(ref, this.getRefHandle());
+	}
+
+	/**
+	 * Give the attached ref the current handle after it changed
+	 */
+	protected refreshRef(): void {
+		setRef(this.attachedRef, this.getRefHandle());
+	}
+
+	/**
+	 * Get the VNode tree this component last rendered into its element
+	 */
+	public getRenderedVNode(): VNode | null {
+		return this.lastVNode;
+	}
+
+	/**
+	 * Get the children projected into a slot, from the children prop
+	 * Children with a slot attribute go to the slot of that name, the others
+	 * to the default slot. The fallback is rendered when the slot is empty.
+	 * The content is the parent's VNodes, patched again when it renders, e.g.
+	 * html`<header>${this.slot('header', 'Untitled')}</header>${this.slot()}`
+	 */
+	protected slot(name: string = 'default', fallback?: any): VNode {
+		const content = this.getSlotContent(name);
+
+		if (content.length === 0) {
+			return createFragment(fallback === undefined ? [] : [fallback]);
+		}
+		return createFragment(content);
+	}
+
+	/**
+	 * Check if children were projected into a slot
+	 */
+	protected hasSlot(name: string = 'default'): boolean {
+		return this.getSlotContent(name).length > 0;
+	}
+
+	private getSlotContent(name: string): VNode[] {
+		const { children } = this.props;
+		if (!children) {
+			return [];
+		}
+
+		const list: VNode[] = Array.isArray(children) ? children : [children];
+		return list.filter((child) => getSlotName(child) === name);
+	}
+
 	/**
 	 * Update the component with new data
 	 * Default implementation just re-renders
@@ -115,6 +324,14 @@ export abstract class Component {
 	 * Schedule an update using requestAnimationFrame
 	 */
 	protected scheduleUpdate(): void {
+		// Without a DOM, whatever renders the component updates it
+		if (!canUseDOM) {
+			for (const listener of updateRequestListeners) {
+				listener(this);
+			}
+			return;
+		}
+
 		// Avoid scheduling multiple updates
 		if (this.updateScheduled !== null) {
 			return;
@@ -122,11 +339,92 @@ export abstract class Component {
 
 		// Schedule update for next animation frame
 		this.updateScheduled = scheduleTask(() => {
-			this.updateUI();
+			this.guard('render', () => this.updateUI());
 			this.updateScheduled = null;
 		});
 	}
 
+	/**
+	 * Handle an error thrown by a descendant component
+	 * Returns true if the error was handled, which only error boundaries do
+	 */
+	public catchError(error: unknown, info: TErrorInfo): boolean {
+		return false;
+	}
+
+	/**
+	 * Hand an error thrown by this component to the nearest error boundary
+	 * above it, and notify the error listeners
+	 */
+	public reportError(error: unknown, phase: TErrorPhase): void {
+		const info: TErrorInfo = { component: this, phase, boundary: null };
+
+		info.boundary = this.findAncestor((parent) =>
+			parent.catchError(error, { ...info, boundary: parent })
+		);
+
+		for (const listener of errorListeners) {
+			listener(error, info);
+		}
+
+		if (!info.boundary) {
+			console.error(
+				`Uncaught error in ${this.constructor.name} (${phase}):`,
+				error
+			);
+		}
+	}
+
+	/**
+	 * Handle a descendant component waiting for a promise
+	 * Returns true if it was handled, which only Suspense boundaries do
+	 */
+	public catchSuspend(promise: Promise<unknown>): boolean {
+		return false;
+	}
+
+	/**
+	 * Tell the nearest Suspense boundary above this component that its
+	 * content isn't ready until the promise settles
+	 * Without a boundary, the component just renders what it has meanwhile
+	 */
+	protected suspend(promise: Promise<unknown>): void {
+		this.findAncestor((parent) => parent.catchSuspend(promise));
+	}
+
+	/**
+	 * Find the closest component above this one that a callback accepts
+	 */
+	private findAncestor(
+		accept: (parent: Component) => boolean
+	): Component | null {
+		// Without a DOM there are no elements to find ancestors through
+		if (!canUseDOM) {
+			return null;
+		}
+
+		let parent = findComponent(getParentNode(this.element));
+		while (parent) {
+			if (accept(parent)) {
+				return parent;
+			}
+			parent = findComponent(getParentNode(parent.element));
+		}
+		return null;
+	}
+
+	/**
+	 * Run part of the component's work, reporting errors it throws
+	 * instead of letting them abort the scheduled task
+	 */
+	protected guard(phase: TErrorPhase, work: () => void): void {
+		try {
+			work();
+		} catch (error) {
+			this.reportError(error, phase);
+		}
+	}
+
 	/**
 	 * Check if component should update based on props comparison
 	 * Can be overridden by subclasses for custom logic
@@ -168,7 +466,7 @@ export abstract class Component {
 		let content;
 
 		if (typeof this.render === 'function') {
-			content = this.render();
+			content = this.callRender();
 		}
 		// Skip render if it's not implemented yet (happens during base class construction)
 		else if (this.render === undefined) {
@@ -192,6 +490,116 @@ export abstract class Component {
 		return content;
 	}
 
+	/**
+	 * Call the render method in a new render frame
+	 */
+	protected callRender(): VNode | void {
+		renderFrames.push({ component: this });
+		try {
+			return this.render();
+		} finally {
+			renderFrames.pop();
+		}
+	}
+
+	/**
+	 * Run the component's render and return its content
+	 * Components that render by calling replaceContents() return nothing
+	 */
+	protected runRender(): VNode | void {
+		return this.memoizeRender();
+	}
+
+	/**
+	 * Render the component into a VNode of its host element and content,
+	 * without creating or patching DOM nodes, e.g. to render it to a string
+	 */
+	public renderToVNode(): VNodeElement {
+		const content = this.runRender() || this.lastVNode;
+
+		// The element has the current classes and attributes, if there is one
+		const props: Record<string, any> = {};
+		if (this.element) {
+			for (const attr of Array.from(this.element.attributes)) {
+				props[attr.name] = attr.value;
+			}
+		} else {
+			if (this.host.className) {
+				props.class = this.host.className;
+			}
+			Object.assign(props, this.host.attributes);
+		}
+
+		return createElement(
+			this.element ? this.element.localName : this.host.tagName,
+			props,
+			content
+		);
+	}
+
+	/**
+	 * Get the state to serialize with the component's server markup
+	 * Returns null when there is nothing to restore on the client
+	 */
+	public getHydrationState(): Record<string, any> | null {
+		return null;
+	}
+
+	/**
+	 * Restore the state serialized by getHydrationState() before hydrating
+	 */
+	protected restoreHydrationState(state: Record<string, any>): void {
+		// Default implementation has no state to restore
+	}
+
+	/**
+	 * Adopt a server-rendered element as this component's element
+	 * Its content is hydrated from this component's render instead of
+	 * being created again
+	 */
+	public hydrate(element: HTMLElement): void {
+		// Hydration replaces the initial render
+		if (this.updateScheduled !== null) {
+			cancelTask(this.updateScheduled);
+			this.updateScheduled = null;
+		}
+
+		const state = element.getAttribute(HYDRATION_STATE_ATTRIBUTE);
+		if (state !== null) {
+			element.removeAttribute(HYDRATION_STATE_ATTRIBUTE);
+			const restored = parseHydrationState(state);
+			if (restored) {
+				this.restoreHydrationState(restored);
+			}
+		}
+
+		const content = this.runRender();
+		const clientElement = this.adoptElement(element);
+
+		if (content) {
+			hydrate(content, element);
+			this.lastVNode = content;
+		} else {
+			// Components rendering through replaceContents() already rendered
+			// into their own element, that content replaces the markup
+			element.replaceChildren(...Array.from(clientElement.childNodes));
+		}
+	}
+
+	/**
+	 * Make an existing element this component's element
+	 * Returns the element it had before
+	 */
+	protected adoptElement(element: HTMLElement): HTMLElement {
+		const previous = this.element;
+
+		componentElements.delete(previous);
+		componentElements.set(element, this);
+		this.element = element;
+
+		return previous;
+	}
+
 	/**
 	 * Internal method to update the UI based on render output
 	 */
@@ -259,6 +667,12 @@ export abstract class Component {
 			newVNode = content;
 		}
 
+		// Without a DOM, keep the content for renderToVNode()
+		if (!canUseDOM) {
+			this.lastVNode = newVNode;
+			return;
+		}
+
 		// If we have a previous VNode, do a proper diff+patch
 		if (this.lastVNode) {
 			// Apply patch to update only what changed
@@ -277,8 +691,7 @@ export abstract class Component {
 				this.element.appendChild(content);
 			} else {
 				// Create real DOM from VNode and append
-				const newNode = createRealNode(newVNode);
-				this.element.appendChild(newNode);
+				domRenderer.mount(newVNode, this.element);
 			}
 		}
 
@@ -298,6 +711,9 @@ export abstract class Component {
 			return;
 		}
 
+		// Events of this component are delegated to its container
+		delegateEvents(container);
+
 		container.appendChild(this.element);
 		this.isMounted = true;
 	}
@@ -312,3 +728,13 @@ export abstract class Component {
 		}
 	}
 }
+
+// Errors thrown by event handlers go to the component owning the element
+setEventErrorHandler((error, node) => {
+	const component = findComponent(node);
+	if (component) {
+		component.reportError(error, 'event');
+	} else {
+		console.error('Error in event handler:', error);
+	}
+});
@@ -1,37 +1,75 @@
 import { Component } from './component';
+import {
+	TDataAttributes,
+	TElementEvent,
+	TElementEventMap,
+	TElementProperties,
+	TStyleObject,
+} from './dom-types';
 
+// Children are nodes, components or text, booleans and null are skipped
 type TElementChild =
-	| HTMLElement
+	| Node
 	| string
 	| number
+	| boolean
 	| Component
 	| null
 	| undefined;
-type TElementChildren = TElementChild | TElementChild[];
+type TElementChildren = TElementChild | TElementChildren[];
 
-type TElementProps = {
-	className?: string;
-	id?: string;
-	type?: string;
-	value?: string;
-	checked?: boolean;
-	placeholder?: string;
-	disabled?: boolean;
-	src?: string;
-	href?: string;
-	target?: string;
-	[key: string]: any;
+// Event handlers, onInput and oninput both receive an InputEvent
+type TElementEventHandlers<E extends HTMLElement> = {
+	[K in keyof TElementEventMap as `on${K}` | `on${Capitalize<K>}`]?: (
+		event: TElementEvent<E, K>
+	) => void;
 };
 
-export const h = (
-	tag: keyof HTMLElementTagNameMap,
-	props: TElementProps | null = null,
+/**
+ * Props of an element created by h()
+ * Properties of the element (value, htmlFor, tabIndex...) are set as
+ * properties, aria-* and data-* as attributes
+ */
+export type TElementProps<E extends HTMLElement> = TElementProperties<E> &
+	TElementEventHandlers<E> &
+	TDataAttributes & {
+		style?: string | TStyleObject;
+		dataset?: Record<string, string | number | boolean>;
+	};
+
+/**
+ * Append children to a node
+ */
+const appendChildren = (parent: Node, children: TElementChildren[]): void => {
+	for (const child of (children as any[]).flat(Infinity) as TElementChild[]) {
+		if (child === null || child === undefined || typeof child === 'boolean') {
+			continue;
+		}
+
+		if (child instanceof Component) {
+			parent.appendChild(child.getElement());
+		} else if (child instanceof Node) {
+			parent.appendChild(child);
+		} else {
+			parent.appendChild(document.createTextNode(String(child)));
+		}
+	}
+};
+
+/**
+ * Create an element of a tag, typed by the tag
+ * Usage: h('input', { type: 'text', onInput: (e) => e.data })
+ */
+export const h = <K extends keyof HTMLElementTagNameMap>(
+	tag: K,
+	// The tag alone decides the element, the props are checked against it
+	props: NoInfer<TElementProps<HTMLElementTagNameMap[K]>> | null = null,
 	...children: TElementChildren[]
-): HTMLElement => {
+): HTMLElementTagNameMap[K] => {
 	const element = document.createElement(tag);
 
 	if (props) {
-		for (const [key, value] of Object.entries(props)) {
+		for (const [key, value] of Object.entries(props as Record<string, any>)) {
 			if (value === undefined || value === null) continue;
 
 			if (key === 'className') {
@@ -47,50 +85,25 @@ export const h = (
 				for (const [dataKey, dataValue] of Object.entries(value)) {
 					element.dataset[dataKey] = String(dataValue);
 				}
+			} else if (key in element) {
+				// A property keeps its type, e.g. disabled: false
+				(element as any)[key] = value;
 			} else {
 				element.setAttribute(key, String(value));
 			}
 		}
 	}
 
-	const appendChildren = (
-		parent: HTMLElement,
-		children: TElementChildren[]
-	) => {
-		for (const child of children.flat()) {
-			if (child === null || child === undefined) continue;
-
-			if (child instanceof Component) {
-				parent.appendChild(child.getElement());
-			} else if (child instanceof HTMLElement) {
-				parent.appendChild(child);
-			} else {
-				parent.appendChild(document.createTextNode(String(child)));
-			}
-		}
-	};
-
 	appendChildren(element, children);
 
 	return element;
 };
 
-export const text = (content: string): Text => document.createTextNode(content);
+export const text = (content: string | number): Text =>
+	document.createTextNode(String(content));
 
 export const fragment = (...children: TElementChildren[]): DocumentFragment => {
 	const frag = document.createDocumentFragment();
-
-	for (const child of children.flat()) {
-		if (child === null || child === undefined) continue;
-
-		if (child instanceof Component) {
-			frag.appendChild(child.getElement());
-		} else if (child instanceof Node) {
-			frag.appendChild(child);
-		} else {
-			frag.appendChild(document.createTextNode(String(child)));
-		}
-	}
-
+	appendChildren(frag, children);
 	return frag;
 };
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { html } from './jsx-vdom';
+import { VNode, createElement, patch } from './vdom';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+/**
+ * Render a vnode into a new container and return a function patching it
+ */
+const renderInto = (vnode: VNode) => {
+	const container = document.createElement('div');
+	let current = vnode;
+	patch(null, current, container);
+	return {
+		container,
+		update: (next: VNode) => {
+			patch(current, next, container);
+			current = next;
+		},
+	};
+};
+
+describe('live DOM properties', () => {
+	it('overwrites what the user typed with the rendered value', () => {
+		const { container, update } = renderInto(
+			createElement('input', { value: 'state' })
+		);
+		const input = container.querySelector('input')!;
+
+		input.value = 'typed';
+		update(createElement('input', { value: 'state' }));
+		expect(input.value).toBe('state');
+
+		update(createElement('input', { value: '' }));
+		expect(input.value).toBe('');
+		expect(input.getAttribute('value')).toBeNull();
+	});
+
+	it('overwrites a checkbox the user toggled with the rendered state', () => {
+		const { container, update } = renderInto(
+			createElement('input', { type: 'checkbox', checked: 'false' })
+		);
+		const checkbox = container.querySelector('input')!;
+		expect(checkbox.checked).toBe(false);
+
+		checkbox.click();
+		update(createElement('input', { type: 'checkbox', checked: false }));
+		expect(checkbox.checked).toBe(false);
+
+		update(createElement('input', { type: 'checkbox', checked: true }));
+		expect(checkbox.checked).toBe(true);
+	});
+});
+
+describe('namespaces', () => {
+	it('creates SVG elements and HTML in a foreignObject', () => {
+		const { container } = renderInto(html`
+			<svg viewBox="0 0 10 10">
+				<use xlink:href="#icon"></use>
+				<foreignObject><p>text</p></foreignObject>
+			</svg>
+		`);
+		const svg = container.querySelector('svg')!;
+		const use = svg.querySelector('use')!;
+		const foreignObject = svg.querySelector('foreignObject')!;
+
+		expect(svg.namespaceURI).toBe(SVG_NS);
+		expect(svg.getAttribute('viewBox')).toBe('0 0 10 10');
+		expect(use.namespaceURI).toBe(SVG_NS);
+		expect(use.getAttributeNS('http://www.w3.org/1999/xlink', 'href')).toBe(
+			'#icon'
+		);
+		expect(foreignObject.namespaceURI).toBe(SVG_NS);
+		expect(foreignObject.querySelector('p')!.namespaceURI).toBe(XHTML_NS);
+	});
+
+	it('creates MathML elements', () => {
+		const { container } = renderInto(
+			createElement('math', {}, createElement('mi', {}, 'x'))
+		);
+
+		expect(container.querySelector('mi')!.namespaceURI).toBe(
+			'http://www.w3.org/1998/Math/MathML'
+		);
+	});
+
+	it('creates the children added to an SVG element in its namespace', () => {
+		const { container, update } = renderInto(createElement('svg', {}));
+
+		update(createElement('svg', {}, createElement('circle', { r: 1 })));
+
+		expect(container.querySelector('circle')!.namespaceURI).toBe(SVG_NS);
+	});
+});
@@ -0,0 +1,389 @@
+/**
+ * DOM host of the renderer
+ * Creates and updates DOM nodes for the reconciler in vdom.ts: namespaces,
+ * attributes, live properties, styles and event handlers
+ */
+
+import { setEventProp, setPortalParent } from './events';
+import { THostConfig, VNodePortal } from './vdom';
+
+// Namespaces for elements and attributes that are not plain HTML
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+/**
+ * Resolve the namespace an element is created in
+ * <svg> and <math> open their namespace, other tags inherit their parent's
+ */
+const getElementNamespace = (
+	tagName: string,
+	parentNamespace: string | null
+): string | null => {
+	if (tagName === 'svg') {
+		return SVG_NS;
+	}
+	if (tagName === 'math') {
+		return MATHML_NS;
+	}
+	return parentNamespace;
+};
+
+/**
+ * Get the namespace that children of a DOM node are created in
+ * Returns null for HTML, including inside an SVG <foreignObject>
+ */
+const getChildNamespace = (parent: Node | null): string | null => {
+	if (!parent || parent.nodeType !== Node.ELEMENT_NODE) {
+		return null;
+	}
+
+	const el = parent as Element;
+	if (el.namespaceURI === SVG_NS && el.localName !== 'foreignObject') {
+		return SVG_NS;
+	}
+	if (el.namespaceURI === MATHML_NS) {
+		return MATHML_NS;
+	}
+	return null;
+};
+
+/**
+ * Get the container of a portal, resolving selectors
+ */
+const resolvePortalTarget = (target: VNodePortal['target']): Element => {
+	const container =
+		typeof target === 'string' ? document.querySelector(target) : target;
+	if (!container) {
+		throw new Error(`Portal target not found: ${target}`);
+	}
+	return container;
+};
+
+// Utility to check if a key is a data attribute
+const isDataAttribute = (key: string): boolean => {
+	return key.startsWith('data-');
+};
+
+/**
+ * Get the namespace of a prefixed attribute such as xlink:href or xml:lang
+ */
+const getAttributeNamespace = (key: string): string | null => {
+	if (key.startsWith('xlink:')) {
+		return XLINK_NS;
+	}
+	if (key.startsWith('xml:')) {
+		return XML_NS;
+	}
+	if (key === 'xmlns' || key.startsWith('xmlns:')) {
+		return XMLNS_NS;
+	}
+	return null;
+};
+
+/**
+ * Set an attribute, using its namespace when it has a known prefix
+ */
+const setAttribute = (el: Element, key: string, value: string): void => {
+	const namespace = getAttributeNamespace(key);
+	if (namespace) {
+		el.setAttributeNS(namespace, key, value);
+	} else {
+		el.setAttribute(key, value);
+	}
+};
+
+/**
+ * Remove an attribute, using its namespace when it has a known prefix
+ */
+const removeAttribute = (el: Element, key: string): void => {
+	const namespace = getAttributeNamespace(key);
+	if (namespace) {
+		el.removeAttributeNS(namespace, key.split(':').pop() as string);
+	} else {
+		el.removeAttribute(key);
+	}
+};
+
+// Props that mirror live DOM state and must be set as properties.
+// The matching attributes only hold the initial value, so setting them
+// does nothing once the user has interacted with the element.
+export const DOM_PROPERTIES = new Set([
+	'value',
+	'checked',
+	'selected',
+	'indeterminate',
+	'muted',
+]);
+
+// Utility to check if a prop should be set as a live DOM property
+const isDOMProperty = (el: Element, key: string): boolean => {
+	return DOM_PROPERTIES.has(key) && key in el;
+};
+
+/**
+ * Convert a prop value to the type the live DOM property expects
+ * Template attributes arrive as strings, so "false" must not check a checkbox
+ */
+const toPropertyValue = (el: Element, key: string, value: any): any => {
+	if (typeof (el as any)[key] === 'boolean') {
+		return (
+			value !== false &&
+			value !== 'false' &&
+			value !== null &&
+			value !== undefined
+		);
+	}
+	return value === null || value === undefined ? '' : String(value);
+};
+
+/**
+ * Set a live DOM property, comparing against the element's current value
+ * rather than the previous props so user edits are overwritten by state
+ */
+const setDOMProperty = (el: Element, key: string, value: any): void => {
+	const nextValue = toPropertyValue(el, key, value);
+	if ((el as any)[key] !== nextValue) {
+		(el as any)[key] = nextValue;
+	}
+};
+
+/**
+ * Set properties/attributes on a DOM element
+ */
+const setProps = (el: Element, props: Record<string, any>): void => {
+	// Live properties are applied last so they see the final attributes
+	// (e.g. min/max/step before the value of a range input)
+	const domProperties: [string, any][] = [];
+
+	for (const [key, value] of Object.entries(props)) {
+		// Skip event listeners and special attributes
+		if (isEventProp(key) || key === 'key' || key === 'ref') {
+			continue;
+		}
+
+		// Defer live DOM properties
+		if (isDOMProperty(el, key)) {
+			domProperties.push([key, value]);
+			continue;
+		}
+
+		// Handle the style attribute
+		if (key === 'style' && typeof value === 'object') {
+			for (const [cssKey, cssValue] of Object.entries(value)) {
+				((el as HTMLElement).style as any)[cssKey] = cssValue;
+			}
+			continue;
+		}
+
+		// Handle className -> class
+		if (key === 'className') {
+			el.setAttribute('class', value);
+			continue;
+		}
+
+		// Make sure data-* attributes are set correctly
+		if (key.startsWith('data-')) {
+			el.setAttribute(key, value);
+			continue;
+		}
+
+		// Handle regular attributes
+		if (typeof value === 'boolean') {
+			if (value) {
+				setAttribute(el, key, '');
+			}
+		} else if (value !== null && value !== undefined) {
+			setAttribute(el, key, value.toString());
+		}
+	}
+
+	for (const [key, value] of domProperties) {
+		setDOMProperty(el, key, value);
+	}
+};
+
+// Utility to check if a prop is an event handler
+export const isEventProp = (key: string): boolean => {
+	return key.startsWith('on');
+};
+
+/**
+ * Add event listeners to a DOM element
+ * Handlers are registered with the event system, which delegates them
+ * unless modifiers such as onscroll:passive need a native listener
+ */
+const addEventListeners = (el: Element, props: Record<string, any>): void => {
+	for (const [key, value] of Object.entries(props)) {
+		if (isEventProp(key) && typeof value === 'function') {
+			setEventProp(el, key, value);
+		}
+	}
+};
+
+/**
+ * Update props on a DOM element
+ */
+const updateProps = (
+	el: Element,
+	oldProps: Record<string, any>,
+	newProps: Record<string, any>
+): void => {
+	// Remove old props that are no longer present
+	for (const [key, value] of Object.entries(oldProps)) {
+		// Refs are patched separately
+		if (key === 'ref') {
+			continue;
+		}
+
+		if (isEventProp(key)) {
+			// Handle event listeners separately
+			if (typeof newProps[key] !== 'function') {
+				setEventProp(el, key, null);
+			}
+			continue;
+		}
+
+		if (!(key in newProps)) {
+			if (isDOMProperty(el, key)) {
+				// Reset the live property to its empty value
+				setDOMProperty(el, key, undefined);
+			} else if (key === 'className') {
+				el.removeAttribute('class');
+			} else if (key === 'style') {
+				el.removeAttribute('style');
+			} else {
+				removeAttribute(el, key);
+			}
+		}
+	}
+
+	// Set new props
+	for (const [key, value] of Object.entries(newProps)) {
+		// Skip event listeners and refs, they're handled separately
+		if (isEventProp(key) || key === 'ref') {
+			continue;
+		}
+
+		// Live properties are diffed against the real DOM value, since
+		// the user may have changed it since the last render
+		if (isDOMProperty(el, key)) {
+			setDOMProperty(el, key, value);
+			continue;
+		}
+
+		// Skip if the value hasn't changed
+		if (oldProps[key] === value) {
+			continue;
+		}
+
+		// Handle the style attribute
+		if (key === 'style' && typeof value === 'object') {
+			if (typeof oldProps.style === 'object') {
+				// Update changed styles
+				const oldStyle = oldProps.style || {};
+				for (const [cssKey, cssValue] of Object.entries(value)) {
+					if (oldStyle[cssKey] !== cssValue) {
+						((el as HTMLElement).style as any)[cssKey] = cssValue;
+					}
+				}
+
+				// Remove old styles
+				for (const cssKey of Object.keys(oldStyle)) {
+					if (!(cssKey in value)) {
+						((el as HTMLElement).style as any)[cssKey] = '';
+					}
+				}
+			} else {
+				// Apply all styles
+				for (const [cssKey, cssValue] of Object.entries(value)) {
+					((el as HTMLElement).style as any)[cssKey] = cssValue;
+				}
+			}
+			continue;
+		}
+
+		// Handle className -> class
+		if (key === 'className') {
+			el.setAttribute('class', value);
+			continue;
+		}
+
+		// Preserve data attributes exactly as they are
+		if (isDataAttribute(key)) {
+			el.setAttribute(key, value);
+			continue;
+		}
+
+		// Handle regular attributes
+		if (typeof value === 'boolean') {
+			if (value) {
+				setAttribute(el, key, '');
+			} else {
+				removeAttribute(el, key);
+			}
+		} else if (value === null || value === undefined) {
+			removeAttribute(el, key);
+		} else {
+			setAttribute(el, key, value.toString());
+		}
+	}
+
+	// Add new event listeners
+	// Swapping a handler only replaces the stored function
+	for (const [key, value] of Object.entries(newProps)) {
+		if (isEventProp(key) && typeof value === 'function') {
+			if (oldProps[key] !== value) {
+				setEventProp(el, key, value);
+			}
+		}
+	}
+};
+
+/**
+ * Set the props of a new DOM element, or of one adopted while hydrating
+ */
+export const setElementProps = (
+	el: Element,
+	props: Record<string, any>
+): void => {
+	setProps(el, props);
+	addEventListeners(el, props);
+};
+
+// Renders VNodes to DOM nodes
+export const domHost: THostConfig<Node, Element> = {
+	createElement: (tagName, parent) => {
+		const namespace = getElementNamespace(tagName, getChildNamespace(parent));
+		return namespace
+			? document.createElementNS(namespace, tagName)
+			: document.createElement(tagName);
+	},
+	createText: (text) => document.createTextNode(text),
+	createComment: (data) => document.createComment(data),
+	setText: (node, text) => {
+		node.nodeValue = text;
+	},
+	insertBefore: (parent, node, before) => {
+		parent.insertBefore(node, before);
+	},
+	removeChild: (parent, node) => {
+		parent.removeChild(node);
+	},
+	parentNode: (node) => node.parentNode,
+	nextSibling: (node) => node.nextSibling,
+	setProps: setElementProps,
+	updateProps,
+	resolvePortalTarget,
+	// Events from a portal's children bubble to the portal's placeholder
+	// and from there through the component that declared the portal
+	setPortalParent,
+	// Components render into their own element
+	getComponentNode: (component) => {
+		// Ensure we have the latest rendered output without directly calling protected methods
+		component.update();
+		return component.getElement();
+	},
+};
@@ -0,0 +1,64 @@
+/**
+ * Types describing DOM elements, shared by the typed ways to create them:
+ * h() in createElement.ts and the JSX types in jsx-runtime.ts
+ */
+
+// Keys of the properties of T that are not readonly
+type TWritableKeys<T> = {
+	[K in keyof T]-?: (<U>() => U extends { [Q in K]: T[K] } ? 1 : 2) extends <
+		U,
+	>() => U extends { -readonly [Q in K]: T[K] } ? 1 : 2
+		? K
+		: never;
+}[keyof T];
+
+// Properties replacing the content of an element
+type TContentProperties =
+	'innerHTML' | 'outerHTML' | 'innerText' | 'outerText' | 'textContent';
+
+/**
+ * Writable primitive properties of an element, e.g. value or disabled
+ * Event handler properties and those replacing its content are left out
+ */
+export type TElementProperties<E> = {
+	[
+		K in TWritableKeys<E> as E[K] extends string | number | boolean
+			? K extends `on${string}` | TContentProperties
+				? never
+				: K
+			: never
+	]?: E[K];
+};
+
+/**
+ * Events of HTML elements by type
+ * input and beforeinput are InputEvents, lib.dom types input as Event
+ */
+export type TElementEventMap = Omit<
+	HTMLElementEventMap,
+	'input' | 'beforeinput'
+> & {
+	input: InputEvent;
+	beforeinput: InputEvent;
+};
+
+// Event received by a handler of an element
+export type TElementEvent<
+	E extends Element,
+	K extends keyof TElementEventMap,
+> = TElementEventMap[K] & { currentTarget: E };
+
+// aria-* and data-* attributes
+export type TDataAttributes = {
+	[attribute: `aria-${string}` | `data-${string}`]:
+		string | number | boolean | undefined;
+};
+
+// Inline styles by property name, e.g. { fontSize: '12px' }
+export type TStyleObject = {
+	[
+		K in keyof CSSStyleDeclaration as CSSStyleDeclaration[K] extends string
+			? K
+			: never
+	]?: string;
+};
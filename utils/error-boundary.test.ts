@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Component, TErrorPhase } from './component';
+import { ErrorBoundary } from './error-boundary';
+import { HookComponent } from './hooks';
+import { VNode, createElement, destroyComponent, mount } from './vdom';
+
+let failing = true;
+
+class FailingRender extends Component {
+	protected render(): VNode {
+		if (failing) {
+			throw new Error('render failed');
+		}
+		return createElement('p', {}, 'content');
+	}
+}
+
+class FailingEffect extends HookComponent {
+	protected render(): VNode {
+		this.useEffect(() => {
+			throw new Error('effect failed');
+		}, []);
+		return createElement('p', {}, 'content');
+	}
+}
+
+// Components render in the frames after they are mounted
+const frames = async (count = 4) => {
+	for (let i = 0; i < count; i++) {
+		await new Promise<void>((resolve) =>
+			requestAnimationFrame(() => resolve())
+		);
+	}
+};
+
+const renderBoundary = (content: () => Component) => {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const phases: TErrorPhase[] = [];
+	const boundary = new ErrorBoundary({
+		render: content,
+		onError: (_error, info) => phases.push(info.phase),
+	});
+	mount({ type: 'component', component: boundary, props: {} }, container);
+	return { container, boundary, phases };
+};
+
+describe('ErrorBoundary', () => {
+	afterEach(() => {
+		failing = true;
+		document.body.innerHTML = '';
+	});
+
+	it('shows its fallback for a render error until it is reset', async () => {
+		const { container, boundary, phases } = renderBoundary(
+			() => new FailingRender()
+		);
+		await frames();
+
+		expect(phases).toEqual(['render']);
+		expect(container.querySelector('.error-message')!.textContent).toBe(
+			'render failed'
+		);
+
+		failing = false;
+		container.querySelector<HTMLButtonElement>('.error-reset')!.click();
+		await frames();
+
+		expect(container.querySelector('.error-fallback')).toBeNull();
+		expect(container.querySelector('p')!.textContent).toBe('content');
+		destroyComponent(boundary);
+	});
+
+	it('catches errors thrown by effects', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const { container, boundary, phases } = renderBoundary(
+			() => new FailingEffect()
+		);
+		await frames();
+
+		expect(phases).toEqual(['effect']);
+		expect(container.querySelector('.error-message')!.textContent).toBe(
+			'effect failed'
+		);
+		expect(error).not.toHaveBeenCalled();
+		error.mockRestore();
+		destroyComponent(boundary);
+	});
+});
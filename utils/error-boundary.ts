@@ -0,0 +1,96 @@
+/**
+ * Error boundaries
+ * A boundary renders its content until a descendant throws while rendering,
+ * in an effect or in an event handler. It then shows a fallback instead,
+ * until the fallback's reset action renders the content again.
+ */
+
+import { Component, TErrorInfo } from './component';
+import { html } from './jsx-vdom';
+import { VNode } from './vdom';
+
+export type TErrorBoundaryProps = {
+	// Content of the boundary, called again to retry after a reset
+	render: () => VNode | Component;
+	// Shown instead of the content after an error
+	fallback?: (error: unknown, reset: () => void) => VNode;
+	// Called with every error the boundary catches
+	onError?: (error: unknown, info: TErrorInfo) => void;
+};
+
+export class ErrorBoundary extends Component {
+	private failed = false;
+	private error: unknown = null;
+	private content: Component | null = null;
+
+	constructor(props: TErrorBoundaryProps) {
+		super(props, 'error-boundary');
+	}
+
+	/**
+	 * Show the fallback when a descendant throws
+	 */
+	public override catchError(error: unknown, info: TErrorInfo): boolean {
+		// Keep the first error if several descendants fail at once
+		if (!this.failed) {
+			this.failed = true;
+			this.error = error;
+			this.update();
+		}
+
+		const { onError } = this.props as TErrorBoundaryProps;
+		if (onError) {
+			onError(error, info);
+		}
+		return true;
+	}
+
+	/**
+	 * Clear the error and render the content again
+	 * A content component is created anew, the failed one has been destroyed
+	 */
+	public reset = (): void => {
+		this.failed = false;
+		this.error = null;
+		this.content = null;
+		this.update();
+	};
+
+	protected render(): VNode {
+		const { render, fallback } = this.props as TErrorBoundaryProps;
+
+		if (this.failed) {
+			return fallback
+				? fallback(this.error, this.reset)
+				: this.renderDefaultFallback();
+		}
+
+		// A content component is kept across renders of the boundary
+		if (!this.content) {
+			const content = render();
+			if (!(content instanceof Component)) {
+				return content;
+			}
+			this.content = content;
+		}
+
+		return {
+			type: 'component',
+			component: this.content,
+			props: {},
+		};
+	}
+
+	private renderDefaultFallback(): VNode {
+		const message =
+			this.error instanceof Error ? this.error.message : String(this.error);
+
+		return html`
+			<div class="error-fallback" role="alert">
+				<h2>Something went wrong</h2>
+				<p class="error-message">${message}</p>
+				<button class="error-reset" onclick=${this.reset}>Try again</button>
+			</div>
+		`;
+	}
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { setEventProp } from './events';
+
+describe('event props', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	const createButton = (): HTMLButtonElement => {
+		const button = document.createElement('button');
+		document.body.appendChild(button);
+		return button;
+	};
+
+	it('adds a once listener again for a new handler after it fired', () => {
+		const button = createButton();
+		const first = vi.fn();
+		const second = vi.fn();
+
+		setEventProp(button, 'onclick:once', first);
+		button.click();
+		button.click();
+		expect(first).toHaveBeenCalledTimes(1);
+
+		setEventProp(button, 'onclick:once', second);
+		button.click();
+		button.click();
+		expect(second).toHaveBeenCalledTimes(1);
+	});
+
+	it('keeps handlers of the same type with different modifiers', () => {
+		const button = createButton();
+		const onClick = vi.fn();
+		const onClickPrevent = vi.fn((event: Event) => event.defaultPrevented);
+
+		setEventProp(button, 'onclick', onClick);
+		setEventProp(button, 'onclick:prevent', onClickPrevent);
+		button.click();
+
+		expect(onClick).toHaveBeenCalledTimes(1);
+		expect(onClickPrevent).toHaveReturnedWith(true);
+
+		setEventProp(button, 'onclick:prevent', null);
+		button.click();
+
+		expect(onClick).toHaveBeenCalledTimes(2);
+		expect(onClickPrevent).toHaveBeenCalledTimes(1);
+	});
+
+	it('listens to wheel and touch events on roots without passive', () => {
+		const addEventListener = vi.spyOn(document, 'addEventListener');
+
+		setEventProp(createButton(), 'onwheel:prevent', () => {});
+		setEventProp(createButton(), 'ontouchmove', () => {});
+
+		for (const type of ['wheel', 'touchmove']) {
+			const call = addEventListener.mock.calls.find(([name]) => name === type);
+			expect(call?.[2]).toMatchObject({ passive: false });
+		}
+		addEventListener.mockRestore();
+	});
+
+	it('stops at the element whose handler stops propagation', () => {
+		const outer = createButton();
+		const inner = document.createElement('span');
+		outer.appendChild(inner);
+		const onOuter = vi.fn();
+		const onInner = vi.fn((event: Event) => {
+			expect(event.currentTarget).toBe(inner);
+			event.stopPropagation();
+		});
+
+		setEventProp(outer, 'onclick', onOuter);
+		setEventProp(inner, 'onclick', onInner);
+		inner.click();
+
+		expect(onInner).toHaveBeenCalledOnce();
+		expect(onOuter).not.toHaveBeenCalled();
+	});
+
+	it('dispatches focus and blur through focusin and focusout', () => {
+		const form = document.createElement('form');
+		const input = document.createElement('input');
+		form.appendChild(input);
+		document.body.appendChild(form);
+		const types: string[] = [];
+		const record = (event: Event) => types.push(event.type);
+
+		setEventProp(input, 'onfocus', record);
+		setEventProp(input, 'onblur', record);
+		// Unlike the native events, delegated focus and blur bubble
+		setEventProp(form, 'onfocus', record);
+
+		input.focus();
+		input.blur();
+
+		expect(types).toEqual(['focus', 'focus', 'blur']);
+	});
+});
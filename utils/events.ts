@@ -0,0 +1,439 @@
+/**
+ * Delegated event system
+ * Instead of one native listener per element and handler, each root gets a
+ * single listener per event type. Native events are then dispatched to the
+ * handlers stored on the elements along their path, like they would bubble.
+ */
+
+type EventHandler = (event: any) => void;
+
+type EventErrorHandler = (error: unknown, node: Node) => void;
+
+/**
+ * Event passed to delegated handlers
+ * It wraps the native event, so every native property stays available
+ */
+export type SyntheticEvent<E extends Event = Event> = E & {
+	nativeEvent: E;
+	isPropagationStopped(): boolean;
+};
+
+// Events that don't bubble but have a bubbling equivalent to listen to
+const BUBBLING_EQUIVALENTS: Record<string, string> = {
+	focus: 'focusin',
+	blur: 'focusout',
+};
+
+// Events that don't bubble at all. They are listened to in the capture
+// phase and only dispatched to their target, like the native event.
+const NON_BUBBLING_EVENTS = new Set([
+	'mouseenter',
+	'mouseleave',
+	'pointerenter',
+	'pointerleave',
+	'scroll',
+	'load',
+	'error',
+	'abort',
+	'play',
+	'pause',
+	'ended',
+	'canplay',
+	'loadeddata',
+	'loadedmetadata',
+	'timeupdate',
+	'volumechange',
+	'toggle',
+	'invalid',
+]);
+
+// Events browsers listen to passively on the document by default, their
+// root listeners opt out so handlers can still call preventDefault()
+const BLOCKING_EVENTS = new Set([
+	'wheel',
+	'mousewheel',
+	'touchstart',
+	'touchmove',
+]);
+
+// Handlers stored on each element, by event type and then by prop name,
+// so e.g. onclick and onclick:prevent on the same element both run
+const elementHandlers = new WeakMap<
+	EventTarget,
+	Map<string, Map<string, EventHandler>>
+>();
+
+// Portal placeholders, by the top-level DOM nodes of the portal's children.
+// Events bubble from portal content to where the portal was declared.
+const portalParents = new WeakMap<Node, Node>();
+
+// Receives errors thrown by handlers, with the element of the handler
+let eventErrorHandler: EventErrorHandler = (error) => {
+	console.error('Error in event handler:', error);
+};
+
+// Event types each root is listening to
+const rootEventTypes = new Map<EventTarget, Set<string>>();
+
+// Every event type a handler has been registered for
+const delegatedTypes = new Set<string>();
+
+// Native events already dispatched, by handler type. An event reaching
+// several nested roots is only dispatched by the first one.
+const dispatchedEvents = new WeakMap<Event, Set<string>>();
+
+/**
+ * An event prop name parsed into its event type and modifiers
+ * e.g. onclick:capture:once or onkeydown:prevent
+ */
+type TEventProp = {
+	type: string;
+	// Options for a native listener, null when the handler can be delegated
+	listenerOptions: AddEventListenerOptions | null;
+	prevent: boolean;
+	stop: boolean;
+	self: boolean;
+};
+
+// Modifiers that need native addEventListener options
+const LISTENER_MODIFIERS = new Set(['passive', 'capture', 'once']);
+
+// Modifiers that wrap the handler
+const HANDLER_MODIFIERS = new Set(['prevent', 'stop', 'self']);
+
+// Parsed event props, by prop name
+const eventPropCache = new Map<string, TEventProp>();
+
+// Native listeners added for props with listener options, by element and
+// prop name. The listener calls the latest handler, so patching a handler
+// doesn't re-add it, and removal uses the same function and options.
+const nativeListeners = new WeakMap<
+	EventTarget,
+	Map<string, { listener: EventListener; handler: EventHandler }>
+>();
+
+/**
+ * Wrap a native event for dispatching to delegated handlers
+ */
+const createSyntheticEvent = <E extends Event>(
+	nativeEvent: E,
+	type: string
+) => {
+	const state = {
+		currentTarget: null as EventTarget | null,
+		propagationStopped: false,
+	};
+
+	const overrides: Record<PropertyKey, any> = {
+		type,
+		nativeEvent,
+		stopPropagation: () => {
+			state.propagationStopped = true;
+			nativeEvent.stopPropagation();
+		},
+		stopImmediatePropagation: () => {
+			state.propagationStopped = true;
+			nativeEvent.stopImmediatePropagation();
+		},
+		isPropagationStopped: () => state.propagationStopped,
+	};
+
+	const event = new Proxy(nativeEvent, {
+		get(target, prop) {
+			// The native currentTarget is the root, expose the handler's element
+			if (prop === 'currentTarget') {
+				return state.currentTarget;
+			}
+			if (prop in overrides) {
+				return overrides[prop];
+			}
+			// Native getters and methods must be called on the native event
+			const value = Reflect.get(target, prop, target);
+			return typeof value === 'function' ? value.bind(target) : value;
+		},
+	}) as SyntheticEvent<E>;
+
+	return { event, state };
+};
+
+/**
+ * Call a handler, passing errors it throws to the event error handler
+ */
+const callHandler = (
+	handler: EventHandler,
+	event: Event,
+	node: EventTarget
+): void => {
+	try {
+		handler(event);
+	} catch (error) {
+		eventErrorHandler(error, node as Node);
+	}
+};
+
+/**
+ * Get the node events bubble to from a node
+ * Nodes rendered by a portal bubble to the portal's placeholder
+ */
+export const getParentNode = (node: Node): Node | null => {
+	return portalParents.get(node) || node.parentNode;
+};
+
+/**
+ * Set the function receiving errors thrown by event handlers
+ */
+export const setEventErrorHandler = (handler: EventErrorHandler): void => {
+	eventErrorHandler = handler;
+};
+
+/**
+ * Dispatch a native event to the handlers of a type along its path
+ */
+const dispatchEvent = (nativeEvent: Event, type: string): void => {
+	let dispatched = dispatchedEvents.get(nativeEvent);
+	if (dispatched && dispatched.has(type)) {
+		return;
+	}
+	if (!dispatched) {
+		dispatched = new Set();
+		dispatchedEvents.set(nativeEvent, dispatched);
+	}
+	dispatched.add(type);
+
+	const { event, state } = createSyntheticEvent(nativeEvent, type);
+	const bubbles = !NON_BUBBLING_EVENTS.has(type);
+
+	// Walk from the target up, calling handlers until propagation is stopped
+	let node = nativeEvent.target as Node | null;
+	while (node) {
+		const handlers = elementHandlers.get(node)?.get(type);
+		if (handlers && handlers.size > 0) {
+			state.currentTarget = node;
+			// Like native listeners, every handler of the element runs
+			// before propagation stops
+			for (const handler of handlers.values()) {
+				callHandler(handler, event, node);
+			}
+			if (state.propagationStopped) {
+				break;
+			}
+		}
+
+		if (!bubbles) {
+			break;
+		}
+		node = getParentNode(node);
+	}
+
+	state.currentTarget = null;
+};
+
+/**
+ * Add the native listener for a handler type to a root
+ */
+const listenOnRoot = (root: EventTarget, type: string): void => {
+	const types = rootEventTypes.get(root);
+	if (!types || types.has(type)) {
+		return;
+	}
+	types.add(type);
+
+	const nativeType = BUBBLING_EQUIVALENTS[type] || type;
+	root.addEventListener(
+		nativeType,
+		(nativeEvent) => dispatchEvent(nativeEvent, type),
+		{
+			capture: NON_BUBBLING_EVENTS.has(type),
+			passive: BLOCKING_EVENTS.has(type) ? false : undefined,
+		}
+	);
+};
+
+/**
+ * Make a container a root for delegated events
+ * Called for mount containers. The document is always a root, so elements
+ * appended by hand outside of any container still get their events.
+ */
+export const delegateEvents = (root: EventTarget): void => {
+	if (rootEventTypes.has(root)) {
+		return;
+	}
+	rootEventTypes.set(root, new Set());
+
+	for (const type of delegatedTypes) {
+		listenOnRoot(root, type);
+	}
+};
+
+/**
+ * Make events bubble from a node rendered by a portal to its placeholder
+ */
+export const setPortalParent = (node: Node, placeholder: Node): void => {
+	portalParents.set(node, placeholder);
+};
+
+/**
+ * Set (or clear, with null) the handler of an event prop on an element
+ * Replacing a handler only swaps the stored function, no listener changes
+ */
+const setEventHandler = (
+	el: EventTarget,
+	key: string,
+	type: string,
+	handler: EventHandler | null
+): void => {
+	let types = elementHandlers.get(el);
+	let handlers = types?.get(type);
+
+	if (!handler) {
+		handlers?.delete(key);
+		return;
+	}
+
+	if (!types) {
+		types = new Map();
+		elementHandlers.set(el, types);
+	}
+	if (!handlers) {
+		handlers = new Map();
+		types.set(type, handlers);
+	}
+	handlers.set(key, handler);
+
+	// Start listening for this type on every root
+	if (!delegatedTypes.has(type)) {
+		delegatedTypes.add(type);
+		delegateEvents(document);
+		for (const root of rootEventTypes.keys()) {
+			listenOnRoot(root, type);
+		}
+	}
+};
+
+/**
+ * Parse an event prop name (onclick:capture:once) into type and modifiers
+ */
+const parseEventProp = (key: string): TEventProp => {
+	const cached = eventPropCache.get(key);
+	if (cached) {
+		return cached;
+	}
+
+	const [name, ...modifiers] = key.toLowerCase().split(':');
+	const options: AddEventListenerOptions = {};
+	const prop: TEventProp = {
+		type: name.substring(2),
+		listenerOptions: null,
+		prevent: false,
+		stop: false,
+		self: false,
+	};
+
+	for (const modifier of modifiers) {
+		if (LISTENER_MODIFIERS.has(modifier)) {
+			options[modifier as 'passive' | 'capture' | 'once'] = true;
+			prop.listenerOptions = options;
+		} else if (HANDLER_MODIFIERS.has(modifier)) {
+			prop[modifier as 'prevent' | 'stop' | 'self'] = true;
+		} else {
+			console.warn(`Unknown event modifier "${modifier}" in ${key}`);
+		}
+	}
+
+	if (options.passive && prop.prevent) {
+		console.warn(`${key}: preventDefault() is ignored in passive listeners`);
+	}
+
+	eventPropCache.set(key, prop);
+	return prop;
+};
+
+/**
+ * Wrap a handler with the prevent/stop/self modifiers of its prop
+ */
+const wrapHandler = (prop: TEventProp, handler: EventHandler): EventHandler => {
+	if (!prop.prevent && !prop.stop && !prop.self) {
+		return handler;
+	}
+
+	return (event: Event) => {
+		// Only handle events dispatched on the element itself
+		if (prop.self && event.target !== event.currentTarget) {
+			return;
+		}
+		if (prop.prevent) {
+			event.preventDefault();
+		}
+		if (prop.stop) {
+			event.stopPropagation();
+		}
+		handler(event);
+	};
+};
+
+/**
+ * Add, update or remove (with null) a native listener with options
+ */
+const setNativeListener = (
+	el: EventTarget,
+	key: string,
+	type: string,
+	options: AddEventListenerOptions,
+	handler: EventHandler | null
+): void => {
+	let listeners = nativeListeners.get(el);
+	const existing = listeners?.get(key);
+
+	if (!handler) {
+		if (listeners && existing) {
+			el.removeEventListener(type, existing.listener, options);
+			listeners.delete(key);
+		}
+		return;
+	}
+
+	// Already listening, just point the listener at the new handler
+	if (existing) {
+		existing.handler = handler;
+		return;
+	}
+
+	const entry = {
+		handler,
+		listener: (event: Event) => {
+			// The browser removed a once listener, a new handler adds it again
+			if (options.once) {
+				listeners?.delete(key);
+			}
+			callHandler(entry.handler, event, el);
+		},
+	};
+
+	if (!listeners) {
+		listeners = new Map();
+		nativeListeners.set(el, listeners);
+	}
+	listeners.set(key, entry);
+
+	el.addEventListener(type, entry.listener, options);
+};
+
+/**
+ * Set (or clear, with null) the handler of an event prop on an element
+ * Props with passive/capture/once get a native listener with those options,
+ * all other handlers are delegated
+ */
+export const setEventProp = (
+	el: EventTarget,
+	key: string,
+	handler: EventHandler | null
+): void => {
+	const prop = parseEventProp(key);
+	const wrapped = handler ? wrapHandler(prop, handler) : null;
+
+	if (prop.listenerOptions) {
+		setNativeListener(el, key, prop.type, prop.listenerOptions, wrapped);
+	} else {
+		setEventHandler(el, key, prop.type, wrapped);
+	}
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HookComponent } from './hooks';
+import { VNode, createElement, patch } from './vdom';
+
+class Greeting extends HookComponent {
+	public renders = 0;
+
+	constructor() {
+		super({}, 'greeting');
+	}
+
+	protected render(): VNode {
+		this.renders++;
+		const [name] = this.useState('client');
+		return createElement('p', {}, `Hello ${name}`);
+	}
+}
+
+type TFieldHandle = { clear(): void };
+
+// Exposes clearing its input instead of the component
+class Field extends HookComponent {
+	protected render(): VNode {
+		const input = this.useRef<HTMLInputElement | null>(null);
+		this.useImperativeHandle<TFieldHandle>(
+			() => ({
+				clear: () => {
+					input.current!.value = '';
+				},
+			}),
+			[]
+		);
+		return createElement('input', { ref: input });
+	}
+}
+
+const nextFrame = () =>
+	new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+const createServerElement = (state: string, markup: string) => {
+	const element = document.createElement('div');
+	element.className = 'greeting';
+	element.setAttribute('data-hydration-state', state);
+	element.innerHTML = markup;
+	document.body.appendChild(element);
+	return element;
+};
+
+describe('HookComponent hydration', () => {
+	it('renders once when hydrating server markup', async () => {
+		const element = createServerElement(
+			'{"0":"server"}',
+			'<p>Hello server</p>'
+		);
+
+		const greeting = new Greeting();
+		greeting.hydrate(element);
+		await nextFrame();
+		await nextFrame();
+
+		expect(greeting.renders).toBe(1);
+		expect(element.innerHTML).toBe('<p>Hello server</p>');
+
+		greeting.destroy();
+		element.remove();
+	});
+
+	it('renders from the initial state when the server state is invalid', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const element = createServerElement('{"0":', '<p>Hello server</p>');
+
+		const greeting = new Greeting();
+		greeting.hydrate(element);
+
+		expect(warn).toHaveBeenCalledWith(
+			'Ignoring invalid hydration state:',
+			expect.any(SyntaxError)
+		);
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining('Hydration mismatch'),
+			expect.anything()
+		);
+		expect(element.innerHTML).toBe('<p>Hello client</p>');
+		expect(element.hasAttribute('data-hydration-state')).toBe(false);
+
+		warn.mockRestore();
+		greeting.destroy();
+		element.remove();
+	});
+});
+
+describe('useImperativeHandle', () => {
+	it('gives a ref on the component its handle', async () => {
+		const container = document.createElement('div');
+		const ref = { current: null as TFieldHandle | null };
+		const field = new Field();
+
+		patch(
+			null,
+			{ type: 'component', component: field, props: {}, ref },
+			container
+		);
+		await nextFrame();
+
+		const input = container.querySelector('input')!;
+		input.value = 'typed';
+		ref.current!.clear();
+		expect(input.value).toBe('');
+
+		field.destroy();
+	});
+});
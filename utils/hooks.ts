@@ -6,7 +6,8 @@
 // Import VDOM utilities
 import { Component } from './component';
 import { batchUpdates, cancelTask, scheduleTask } from './scheduler';
-import { VNode } from './vdom';
+import { isRenderingToString } from './ssr';
+import { VNode, canUseDOM } from './vdom';
 
 // Define a context type for sharing data between components
 type TContext<T> = {
@@ -17,6 +18,10 @@ type TContext<T> = {
 // Map to store all contexts
 const contextMap = new Map<string, TContext<any>>();
 
+// Unused hook states are reported in development builds only
+// (webpack replaces process.env.NODE_ENV with the build mode)
+const reportUnusedHooks = process.env.NODE_ENV !== 'production';
+
 /**
  * Create a new context that can be consumed by components
  */
@@ -74,6 +79,10 @@ export abstract class HookComponent extends Component {
 	private isBatchingUpdates = false;
 	private pendingStateUpdates: (() => void)[] = [];
 	private updateTaskId: number | null = null;
+	private imperativeHandle: any = undefined;
+	// Indexes of the useState hooks, whose values are serialized for hydration
+	private stateHookIndexes = new Set<number>();
+	private hydrationState: Record<string, any> | null = null;
 
 	constructor(
 		propsOrTagName: Record<string, any> | string = {},
@@ -86,11 +95,16 @@ export abstract class HookComponent extends Component {
 		// Just prevent the initial render from happening twice
 		this.initialRenderComplete = true;
 
+		// Without a DOM the component is only rendered on demand
+		if (!canUseDOM) {
+			return;
+		}
+
 		// Defer initial render until component is in the DOM
 		// to avoid timing issues with animations - now using RAF
 		this.updateTaskId = scheduleTask(() => {
 			if (this.initialRenderComplete) {
-				this.renderWithHooks();
+				this.guard('render', () => this.renderWithHooks());
 			}
 			this.updateTaskId = null;
 		});
@@ -112,14 +126,16 @@ export abstract class HookComponent extends Component {
 
 		const prevHookStateLength = this.hookStates.length;
 
-		const content = this.render();
+		const content = this.callRender();
 
 		// Check if we have any hooks left over that weren't used in this render
 		// This can happen if conditional hooks are used, and the conditions change
 		if (this.hookIndex < prevHookStateLength) {
-			console.log(
-				`${this.constructor.name}: Trimming unused hook states from ${prevHookStateLength} to ${this.hookIndex}`
-			);
+			if (reportUnusedHooks) {
+				console.warn(
+					`${this.constructor.name}: Trimming unused hook states from ${prevHookStateLength} to ${this.hookIndex}`
+				);
+			}
 			// Trim the hook states to match the number of hooks used
 			this.hookStates.splice(this.hookIndex);
 		}
@@ -158,13 +174,18 @@ export abstract class HookComponent extends Component {
 		const index = this.hookIndex++;
 
 		// Initialize state if this hook hasn't been used before
+		// A hydrated component starts from the state it had on the server
 		if (index >= this.hookStates.length) {
+			const restored = this.hydrationState;
 			const initialValue =
-				typeof initialState === 'function'
-					? (initialState as () => T)()
-					: initialState;
+				restored && index in restored
+					? (restored[index] as T)
+					: typeof initialState === 'function'
+						? (initialState as () => T)()
+						: initialState;
 
 			this.hookStates[index] = initialValue;
+			this.stateHookIndexes.add(index);
 		}
 
 		const state = this.hookStates[index] as T;
@@ -259,6 +280,29 @@ export abstract class HookComponent extends Component {
 		return this.useMemo(() => callback, deps);
 	}
 
+	/**
+	 * useImperativeHandle hook for exposing a handle through a ref
+	 * A ref passed to this component's VNode receives the handle instead of
+	 * the component instance
+	 * @param factory Function that returns the handle
+	 * @param deps Dependencies array that determines when to recreate the handle
+	 */
+	protected useImperativeHandle<T>(factory: () => T, deps: any[]): void {
+		const handle = this.useMemo(factory, deps);
+
+		if (handle !== this.imperativeHandle) {
+			this.imperativeHandle = handle;
+			this.refreshRef();
+		}
+	}
+
+	/**
+	 * Expose the imperative handle, if any, to refs
+	 */
+	public override getRefHandle(): any {
+		return this.imperativeHandle !== undefined ? this.imperativeHandle : this;
+	}
+
 	/**
 	 * useContext hook for consuming context values
 	 * @param context The context object created with createContext
@@ -271,10 +315,13 @@ export abstract class HookComponent extends Component {
 		if (index >= this.hookStates.length) {
 			// Create a stable update function
 			const updateFromContext = (newValue: T) => {
-				// Only trigger update if component is still in DOM
-				if (this.getElement().isConnected) {
+				// Without a DOM, whatever renders the component updates it
+				if (!canUseDOM) {
+					this.update();
+				} else if (this.getElement().isConnected) {
+					// Only trigger update if component is still in DOM
 					// Just re-render the component when context changes
-					this.renderWithHooks();
+					this.guard('render', () => this.renderWithHooks());
 				} else {
 					// If component is no longer in DOM, remove the subscription
 					context.subscribers.delete(updateFromContext);
@@ -305,6 +352,11 @@ export abstract class HookComponent extends Component {
 			this.hookStates.push({ deps: undefined, cleanup: undefined });
 		}
 
+		// Effects only run in the browser, not when rendering to a string
+		if (isRenderingToString()) {
+			return;
+		}
+
 		const prevEffectData = this.hookStates[index];
 
 		// More strict comparison of dependencies
@@ -318,11 +370,15 @@ export abstract class HookComponent extends Component {
 		if (shouldRun) {
 			// Run cleanup from previous effect
 			if (typeof prevEffectData.cleanup === 'function') {
-				prevEffectData.cleanup();
+				this.guard('effect', prevEffectData.cleanup);
 			}
 
 			// Run effect and capture cleanup
-			const cleanup = callback();
+			// An effect that throws goes to the error boundary, not the render
+			let cleanup: void | (() => void) = undefined;
+			this.guard('effect', () => {
+				cleanup = callback();
+			});
 
 			// Store new effect data
 			this.hookStates[index] = {
@@ -332,6 +388,51 @@ export abstract class HookComponent extends Component {
 		}
 	}
 
+	/**
+	 * Render with hooks when rendering to a VNode
+	 */
+	protected override runRender(): VNode | void {
+		return this.renderWithHooks();
+	}
+
+	/**
+	 * Serialize the values of useState hooks with server markup
+	 */
+	public override getHydrationState(): Record<string, any> | null {
+		if (this.stateHookIndexes.size === 0) {
+			return null;
+		}
+
+		const state: Record<string, any> = {};
+		for (const index of this.stateHookIndexes) {
+			state[index] = this.hookStates[index];
+		}
+		return state;
+	}
+
+	/**
+	 * Start useState hooks from their serialized values
+	 */
+	protected override restoreHydrationState(state: Record<string, any>): void {
+		this.hydrationState = state;
+	}
+
+	/**
+	 * Hydrate instead of running the initial render scheduled in the
+	 * constructor, the hydrating render replaces it
+	 */
+	public override hydrate(element: HTMLElement): void {
+		if (this.updateTaskId !== null) {
+			cancelTask(this.updateTaskId);
+			this.updateTaskId = null;
+		}
+
+		super.hydrate(element);
+
+		// Only the hooks of the hydrating render start from the server state
+		this.hydrationState = null;
+	}
+
 	/**
 	 * Override the updateUI method from Component to use our hook system
 	 */
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { html as domHTML } from './jsx';
+import { html as vdomHTML } from './jsx-vdom';
+import { unsafeHTML } from './unsafe-html';
+import { patch } from './vdom';
+
+const MARKUP_PAYLOAD =
+	'<img src="x" onerror="alert(1)"><script>alert(1)</script>';
+const ATTRIBUTE_PAYLOAD = '" onmouseover="alert(1)" data-x="';
+
+// Render a template with one of the html tags, returning its first element
+type TRenderTemplate = (
+	strings: TemplateStringsArray,
+	...values: any[]
+) => HTMLElement;
+
+const renderDOM: TRenderTemplate = (strings, ...values) =>
+	domHTML(strings, ...values) as HTMLElement;
+
+const renderVDOM: TRenderTemplate = (strings, ...values) => {
+	const container = document.createElement('div');
+	patch(null, vdomHTML(strings, ...values), container);
+	return container.firstElementChild as HTMLElement;
+};
+
+describe.each([
+	['html (DOM)', renderDOM],
+	['html (VDOM)', renderVDOM],
+])('%s', (_name, render) => {
+	it('renders interpolated markup as text', () => {
+		const el = render`<p>${MARKUP_PAYLOAD}</p>`;
+
+		expect(el.textContent).toBe(MARKUP_PAYLOAD);
+		expect(el.querySelector('img, script')).toBeNull();
+	});
+
+	it('keeps an attribute value inside its attribute', () => {
+		const el = render`<a title="${ATTRIBUTE_PAYLOAD}">link</a>`;
+
+		expect(el.getAttribute('title')).toBe(ATTRIBUTE_PAYLOAD);
+		expect(el.hasAttribute('onmouseover')).toBe(false);
+		expect(el.hasAttribute('data-x')).toBe(false);
+	});
+
+	it('drops event attributes that are not functions', () => {
+		const el = render`<button onclick="${'alert(1)'}">Go</button>`;
+
+		expect(el.hasAttribute('onclick')).toBe(false);
+		expect(el.onclick).toBeNull();
+	});
+
+	it('renders markup wrapped in unsafeHTML', () => {
+		const el = render`<div>${unsafeHTML('<b>bold</b>')}</div>`;
+
+		expect(el.innerHTML).toBe('<b>bold</b>');
+	});
+});
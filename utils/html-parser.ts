@@ -0,0 +1,323 @@
+/**
+ * HTML parser for templates
+ * Parses the markup of html`` templates into VNodes with string operations
+ * only, so templates are parsed the same way with or without a DOM
+ */
+
+import { VNode, VNodeElement } from './vdom';
+
+// Elements that never have children or a closing tag
+export const VOID_ELEMENTS = new Set([
+	'area',
+	'base',
+	'br',
+	'col',
+	'embed',
+	'hr',
+	'img',
+	'input',
+	'link',
+	'meta',
+	'param',
+	'source',
+	'track',
+	'wbr',
+]);
+
+// Elements whose content is text up to their closing tag
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Open elements that an opening tag implicitly closes, e.g. <li> closes <li>
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+	li: ['li'],
+	dt: ['dt', 'dd'],
+	dd: ['dt', 'dd'],
+	option: ['option'],
+	tr: ['tr', 'td', 'th'],
+	td: ['td', 'th'],
+	th: ['td', 'th'],
+};
+
+// Block elements that implicitly close an open <p>
+const CLOSES_PARAGRAPH = new Set([
+	'address',
+	'article',
+	'aside',
+	'blockquote',
+	'div',
+	'dl',
+	'fieldset',
+	'footer',
+	'form',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'header',
+	'hr',
+	'main',
+	'nav',
+	'ol',
+	'p',
+	'pre',
+	'section',
+	'table',
+	'ul',
+]);
+
+// Named character references decoded in text and attribute values
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: '\u00a0',
+	times: '×',
+	divide: '÷',
+	copy: '©',
+	reg: '®',
+	trade: '™',
+	hellip: '…',
+	mdash: '—',
+	ndash: '–',
+	lsquo: '‘',
+	rsquo: '’',
+	ldquo: '“',
+	rdquo: '”',
+	laquo: '«',
+	raquo: '»',
+	middot: '·',
+	bull: '•',
+	larr: '←',
+	uarr: '↑',
+	rarr: '→',
+	darr: '↓',
+	check: '✓',
+	deg: '°',
+	euro: '€',
+};
+
+// Tags of components in html`` templates, e.g. <vdom-component-0> for a
+// component that is the first value of the template (see jsx-vdom.ts)
+export const COMPONENT_TAG_PATTERN = /^vdom-component-(\d+)$/;
+
+// Patterns matched at the parser's position (sticky)
+const CLOSING_TAG_PATTERN = /<\/([^\s/>]+)\s*>/y;
+const OPENING_TAG_PATTERN = /<([a-zA-Z][^\s/>]*)/y;
+const ATTRIBUTE_PATTERN =
+	/\s*(?:(\/?>)|([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?|\/)/y;
+
+/**
+ * Decode character references such as &amp;, &#169; or &#xA9;
+ * Unknown references are kept as they are
+ */
+export const decodeEntities = (text: string): string => {
+	if (text.indexOf('&') === -1) {
+		return text;
+	}
+
+	return text.replace(
+		/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);/g,
+		(match, entity: string) => {
+			if (entity[0] === '#') {
+				const code =
+					entity[1] === 'x' || entity[1] === 'X'
+						? parseInt(entity.substring(2), 16)
+						: parseInt(entity.substring(1), 10);
+				return code > 0 && code <= 0x10ffff
+					? String.fromCodePoint(code)
+					: match;
+			}
+			return NAMED_ENTITIES[entity] ?? match;
+		}
+	);
+};
+
+/**
+ * Parse an HTML string into a list of top-level VNodes
+ * HTML tag and attribute names are lowercased like a DOM parser does,
+ * names inside <svg> and <math> keep their case (viewBox, foreignObject)
+ * Comments are dropped and a key attribute becomes the VNode's key
+ * Attributes of component tags are props: their names keep their case,
+ * a name without a value is true, and any closing component tag closes
+ * the innermost open one
+ */
+export const parseHTMLString = (html: string): VNode[] => {
+	const root: VNode[] = [];
+	// Open elements, with whether their content is foreign (SVG/MathML)
+	const stack: { vnode: VNodeElement; foreign: boolean }[] = [];
+	let index = 0;
+
+	const current = () => stack[stack.length - 1];
+	const children = () => (stack.length ? current().vnode.children : root);
+	const isForeign = () => (stack.length ? current().foreign : false);
+
+	const appendText = (text: string) => {
+		if (text) {
+			children().push({ type: 'text', text: decodeEntities(text) });
+		}
+	};
+
+	const isComponentTag = (tagName: string) =>
+		COMPONENT_TAG_PATTERN.test(tagName);
+
+	// Close the innermost open element with a tag name, and the ones in it
+	const closeElement = (tagName: string) => {
+		const component = isComponentTag(tagName);
+		for (let i = stack.length - 1; i >= 0; i--) {
+			const openTag = stack[i].vnode.tagName;
+			if (
+				component
+					? isComponentTag(openTag)
+					: openTag.toLowerCase() === tagName.toLowerCase()
+			) {
+				stack.length = i;
+				return;
+			}
+		}
+	};
+
+	while (index < html.length) {
+		const tagStart = html.indexOf('<', index);
+		if (tagStart === -1) {
+			appendText(html.substring(index));
+			break;
+		}
+
+		appendText(html.substring(index, tagStart));
+		index = tagStart;
+
+		// Comments
+		if (html.startsWith('<!--', index)) {
+			const end = html.indexOf('-->', index + 4);
+			index = end === -1 ? html.length : end + 3;
+			continue;
+		}
+
+		// Doctype and other declarations
+		if (html[index + 1] === '!' || html[index + 1] === '?') {
+			const end = html.indexOf('>', index);
+			index = end === -1 ? html.length : end + 1;
+			continue;
+		}
+
+		// Closing tags
+		CLOSING_TAG_PATTERN.lastIndex = index;
+		const closing = CLOSING_TAG_PATTERN.exec(html);
+		if (closing) {
+			closeElement(closing[1]);
+			index += closing[0].length;
+			continue;
+		}
+
+		// A < that doesn't start a tag is text
+		OPENING_TAG_PATTERN.lastIndex = index;
+		const opening = OPENING_TAG_PATTERN.exec(html);
+		if (!opening) {
+			appendText('<');
+			index++;
+			continue;
+		}
+
+		const foreignParent = isForeign();
+		const name = opening[1];
+		const lowerName = name.toLowerCase();
+		const foreign =
+			foreignParent || lowerName === 'svg' || lowerName === 'math';
+		const tagName = foreign ? name : lowerName;
+		const component = isComponentTag(lowerName);
+		index += opening[0].length;
+
+		// Attributes
+		const props: Record<string, any> = {};
+		let key: string | undefined = undefined;
+		let selfClosing = false;
+
+		while (index < html.length) {
+			ATTRIBUTE_PATTERN.lastIndex = index;
+			const match = ATTRIBUTE_PATTERN.exec(html);
+			if (!match) {
+				index = html.length;
+				break;
+			}
+			index += match[0].length;
+
+			if (match[1]) {
+				selfClosing = match[1] === '/>';
+				break;
+			}
+			if (!match[2]) {
+				continue;
+			}
+
+			const attrName = foreign || component ? match[2] : match[2].toLowerCase();
+			const rawValue = match[3] ?? match[4] ?? match[5];
+			const value =
+				component && rawValue === undefined
+					? true
+					: decodeEntities(rawValue ?? '');
+
+			if (attrName === 'key') {
+				key = String(value);
+			} else if (!(attrName in props)) {
+				props[attrName] = value;
+			}
+		}
+
+		// Opening tags close elements they can't be nested in
+		if (!foreignParent && stack.length) {
+			const openTag = current().vnode.tagName;
+			if (
+				(IMPLIED_END_TAGS[tagName] || []).includes(openTag) ||
+				(openTag === 'p' && CLOSES_PARAGRAPH.has(tagName))
+			) {
+				closeElement(openTag);
+			}
+		}
+
+		const vnode: VNodeElement = {
+			type: 'element',
+			tagName,
+			props,
+			children: [],
+			key,
+		};
+		children().push(vnode);
+
+		if (selfClosing || (!foreign && VOID_ELEMENTS.has(tagName))) {
+			continue;
+		}
+
+		// Raw text elements contain text up to their closing tag
+		if (!foreign && RAW_TEXT_ELEMENTS.has(tagName)) {
+			const closePattern = new RegExp(`</${tagName}\\s*>`, 'gi');
+			closePattern.lastIndex = index;
+			const close = closePattern.exec(html);
+			const end = close ? close.index : html.length;
+			const text = html.substring(index, end);
+			if (text) {
+				vnode.children.push({
+					type: 'text',
+					// Script and style content is never decoded
+					text:
+						tagName === 'script' || tagName === 'style'
+							? text
+							: decodeEntities(text),
+				});
+			}
+			index = close ? end + close[0].length : end;
+			continue;
+		}
+
+		// Children of foreignObject are HTML again
+		stack.push({
+			vnode,
+			foreign: foreign && tagName !== 'foreignObject',
+		});
+	}
+
+	return root;
+};
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Component } from './component';
+import { TIslandHydration, hydrateIslands, island } from './islands';
+import { VNode, createElement } from './vdom';
+
+class Counter extends Component {
+	private count = 0;
+
+	constructor(props: { start?: number } = {}) {
+		super(props);
+		this.count = props.start || 0;
+	}
+
+	protected render(): VNode {
+		return createElement(
+			'button',
+			{
+				onclick: () => {
+					this.count++;
+					this.update();
+				},
+			},
+			String(this.count)
+		);
+	}
+}
+
+const nextFrame = () =>
+	new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+// Lets loading promises settle
+const flush = () => new Promise<void>((resolve) => setTimeout(resolve));
+
+/**
+ * Define an island of a counter and write its server markup
+ */
+const renderIsland = (hydrate: TIslandHydration) => {
+	const name = `counter-${hydrate}`;
+	const loader = vi.fn(async () => ({ default: Counter }));
+	island(name, loader, { hydrate });
+
+	const container = document.createElement('main');
+	container.innerHTML =
+		`<p>static</p><div class="island" data-island="${name}" ` +
+		`data-island-props='{"start":2}'><div><button>2</button></div></div>`;
+	document.body.appendChild(container);
+
+	const button = container.querySelector('button')!;
+	const islands = hydrateIslands(container);
+	return { container, button, loader, islands };
+};
+
+/**
+ * Check that the server markup was hydrated: same button, now counting
+ */
+const expectHydrated = async (button: HTMLButtonElement) => {
+	expect(button.isConnected).toBe(true);
+	button.click();
+	await nextFrame();
+	expect(button.textContent).toBe('3');
+};
+
+describe('hydrateIslands', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+		vi.unstubAllGlobals();
+	});
+
+	it('hydrates a load island right away, leaving the page static', async () => {
+		const warn = vi.spyOn(console, 'warn');
+		const { container, button, loader, islands } = renderIsland('load');
+
+		expect(loader).toHaveBeenCalledOnce();
+		await flush();
+
+		expect(islands).toHaveLength(1);
+		expect(container.querySelector('[data-island-props]')).toBeNull();
+		await expectHydrated(button);
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it('hydrates an idle island once the browser is idle', async () => {
+		let idle = () => {};
+		vi.stubGlobal('requestIdleCallback', (callback: () => void) => {
+			idle = callback;
+			return 1;
+		});
+		const { button, loader } = renderIsland('idle');
+
+		await flush();
+		expect(loader).not.toHaveBeenCalled();
+
+		idle();
+		await flush();
+		await expectHydrated(button);
+	});
+
+	it('hydrates a visible island once it comes near the viewport', async () => {
+		const observed: Element[] = [];
+		let intersect: (
+			entries: Partial<IntersectionObserverEntry>[]
+		) => void = () => {};
+		vi.stubGlobal(
+			'IntersectionObserver',
+			class {
+				constructor(callback: typeof intersect) {
+					intersect = callback;
+				}
+				observe(element: Element) {
+					observed.push(element);
+				}
+				unobserve() {}
+			}
+		);
+		const { button, loader } = renderIsland('visible');
+
+		await flush();
+		expect(loader).not.toHaveBeenCalled();
+
+		intersect([{ target: observed[0], isIntersecting: true }]);
+		await flush();
+		await expectHydrated(button);
+	});
+});
@@ -0,0 +1,277 @@
+/**
+ * Islands: interactive components in otherwise static pages
+ * A prerendered page stays static HTML and only its islands are hydrated.
+ * Each island loads its component from its own chunk once it becomes
+ * visible or the browser is idle, then adopts its server markup.
+ */
+
+import { Component } from './component';
+import { TComponentConstructor } from './component-types';
+import { VNode, VNodeElement } from './vdom';
+
+// When an island is hydrated: right away, once the browser is idle,
+// or once it comes near the viewport
+export type TIslandHydration = 'load' | 'idle' | 'visible';
+
+export type TIslandOptions = {
+	hydrate?: TIslandHydration;
+};
+
+// Attributes marking the host element of an island in server markup
+export const ISLAND_ATTRIBUTE = 'data-island';
+const ISLAND_PROPS_ATTRIBUTE = 'data-island-props';
+
+type IslandDefinition = {
+	// Component rendering the island
+	island: TComponentConstructor<any>;
+	// Load the island's content component, once for all instances
+	load: () => Promise<void>;
+};
+
+// Islands by name, to hydrate them from their markers
+const islands = new Map<string, IslandDefinition>();
+
+// Callbacks of elements waiting to come near the viewport
+const visibilityCallbacks = new Map<Element, () => void>();
+let visibilityObserver: IntersectionObserver | null = null;
+
+/**
+ * Call a callback once an element comes near the viewport
+ * Returns a function that cancels it
+ */
+const whenVisible = (element: Element, callback: () => void): (() => void) => {
+	// Without IntersectionObserver there is no reason to wait
+	if (typeof IntersectionObserver === 'undefined') {
+		callback();
+		return () => {};
+	}
+
+	if (!visibilityObserver) {
+		// The margin starts loading a little before the island is on screen
+		visibilityObserver = new IntersectionObserver(
+			(entries) => {
+				for (const entry of entries) {
+					const visible = visibilityCallbacks.get(entry.target);
+					if (entry.isIntersecting && visible) {
+						visibilityCallbacks.delete(entry.target);
+						visibilityObserver?.unobserve(entry.target);
+						visible();
+					}
+				}
+			},
+			{ rootMargin: '200px' }
+		);
+	}
+
+	visibilityCallbacks.set(element, callback);
+	visibilityObserver.observe(element);
+
+	return () => {
+		visibilityCallbacks.delete(element);
+		visibilityObserver?.unobserve(element);
+	};
+};
+
+/**
+ * Call a callback once the browser is idle
+ * Returns a function that cancels it
+ */
+const whenIdle = (callback: () => void): (() => void) => {
+	if (typeof window.requestIdleCallback === 'function') {
+		const id = window.requestIdleCallback(callback, { timeout: 2000 });
+		return () => window.cancelIdleCallback(id);
+	}
+
+	const id = window.setTimeout(callback, 200);
+	return () => window.clearTimeout(id);
+};
+
+/**
+ * Call a callback when an island should be hydrated
+ * Returns a function that cancels it
+ */
+const whenHydrating = (
+	element: Element,
+	hydration: TIslandHydration,
+	callback: () => void
+): (() => void) => {
+	if (hydration === 'visible') {
+		return whenVisible(element, callback);
+	}
+	if (hydration === 'idle') {
+		return whenIdle(callback);
+	}
+
+	callback();
+	return () => {};
+};
+
+/**
+ * Define an island, a component loaded from its own chunk, e.g.
+ * island('counter', () => import('./Counter'), { hydrate: 'idle' })
+ * Rendered on the client it loads like a lazy component. Its server markup
+ * carries its name and props, so it can be hydrated without its page.
+ */
+export const island = <P extends Record<string, any> = {}>(
+	name: string,
+	loader: () => Promise<{ default: TComponentConstructor<P> }>,
+	{ hydrate: hydration = 'visible' }: TIslandOptions = {}
+): TComponentConstructor<P> => {
+	// The module is loaded once for all instances
+	let loaded: TComponentConstructor<P> | null = null;
+	let loading: Promise<void> | null = null;
+
+	const load = (): Promise<void> => {
+		if (!loading) {
+			loading = loader().then((module) => {
+				loaded = module.default;
+			});
+			// Allow a retry after a failed load
+			loading.catch(() => {
+				loading = null;
+			});
+		}
+		return loading;
+	};
+
+	class IslandComponent extends Component {
+		private inner: Component | null = null;
+		private waiting = false;
+		// Set while server markup waits for the island to be hydrated
+		private awaitingHydration = false;
+		private cancelHydration: (() => void) | null = null;
+
+		constructor(props: P = {} as P) {
+			super(props, 'island', { [ISLAND_ATTRIBUTE]: name });
+		}
+
+		protected render(): VNode | void {
+			// The server markup stays as it is until the island is hydrated
+			if (this.awaitingHydration) {
+				return;
+			}
+
+			if (!loaded) {
+				if (!this.waiting) {
+					this.waiting = true;
+					const pending = load().then(
+						() => this.update(),
+						(error) => this.reportError(error, 'render')
+					);
+					pending.finally(() => {
+						this.waiting = false;
+					});
+					this.suspend(pending);
+				}
+				return;
+			}
+
+			if (!this.inner) {
+				this.inner = new loaded(this.props as P);
+			}
+
+			return {
+				type: 'component',
+				component: this.inner,
+				props: this.props,
+			};
+		}
+
+		/**
+		 * Render the island with its props, to hydrate it from its markup
+		 */
+		public override renderToVNode(): VNodeElement {
+			const vnode = super.renderToVNode();
+			vnode.props[ISLAND_PROPS_ATTRIBUTE] = JSON.stringify(this.props);
+			return vnode;
+		}
+
+		/**
+		 * Adopt the server markup, and hydrate it once the island should be
+		 * interactive and its component is loaded
+		 */
+		public override hydrate(element: HTMLElement): void {
+			element.removeAttribute(ISLAND_PROPS_ATTRIBUTE);
+			this.adoptElement(element);
+			this.awaitingHydration = true;
+
+			this.cancelHydration = whenHydrating(element, hydration, () => {
+				this.cancelHydration = null;
+				load().then(
+					() => {
+						// Not if the island was destroyed meanwhile
+						if (this.awaitingHydration) {
+							this.awaitingHydration = false;
+							super.hydrate(element);
+						}
+					},
+					(error) => this.reportError(error, 'render')
+				);
+			});
+		}
+
+		/**
+		 * Clean up when component is destroyed
+		 */
+		public override destroy(): void {
+			if (this.cancelHydration) {
+				this.cancelHydration();
+				this.cancelHydration = null;
+			}
+			this.awaitingHydration = false;
+			super.destroy();
+		}
+	}
+
+	if (islands.has(name)) {
+		console.warn(`Island "${name}" is defined twice, the last one is used`);
+	}
+	islands.set(name, { island: IslandComponent, load });
+
+	return IslandComponent;
+};
+
+/**
+ * Hydrate the islands in prerendered markup, leaving the rest of it static
+ * Islands nested in another island are hydrated with it
+ * Returns the island components, to destroy them when the markup goes
+ */
+export const hydrateIslands = (root: ParentNode = document): Component[] => {
+	const hydrated: Component[] = [];
+	const elements = root.querySelectorAll<HTMLElement>(`[${ISLAND_ATTRIBUTE}]`);
+
+	for (const element of Array.from(elements)) {
+		if (element.parentElement?.closest(`[${ISLAND_ATTRIBUTE}]`)) {
+			continue;
+		}
+
+		const name = element.getAttribute(ISLAND_ATTRIBUTE) as string;
+		const definition = islands.get(name);
+		if (!definition) {
+			console.warn(`Unknown island "${name}", its markup stays static`);
+			continue;
+		}
+
+		let props: Record<string, any> = {};
+		try {
+			props = JSON.parse(element.getAttribute(ISLAND_PROPS_ATTRIBUTE) || '{}');
+		} catch (error) {
+			console.error(`Invalid props of island "${name}":`, error);
+		}
+
+		const component = new definition.island(props);
+		component.hydrate(element);
+		hydrated.push(component);
+	}
+
+	return hydrated;
+};
+
+/**
+ * Load the components of every island
+ * Rendering to a string can't wait for chunks, call this before it so
+ * islands are prerendered instead of left empty
+ */
+export const preloadIslands = async (): Promise<void> => {
+	await Promise.all(Array.from(islands.values(), ({ load }) => load()));
+};
@@ -0,0 +1,96 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { Component } from './component';
+import { Fragment, jsx } from './jsx-runtime';
+import { VNode, VNodeComponent, VNodeElement, VNodeFragment } from './vdom';
+
+class Badge extends Component {
+	constructor(props: { label: string; count?: number } = { label: '' }) {
+		super(props);
+	}
+
+	protected render(): VNode {
+		return <b>{this.props.label}</b>;
+	}
+}
+
+describe('TSX', () => {
+	it('types intrinsic elements from the DOM', () => {
+		const vnode = (
+			<label for="name" class="field" data-test-id="label">
+				<input
+					value="Ada"
+					tabIndex={1}
+					readOnly
+					oninput={(event) => {
+						const input: HTMLInputElement = event.currentTarget;
+						const data: string | null = event.data;
+						return [input, data];
+					}}
+					onkeydown={(event) => event.key}
+					onsubmit:prevent={() => {}}
+				/>
+			</label>
+		) as VNodeElement;
+
+		expect(vnode.tagName).toBe('label');
+		expect(vnode.props).toMatchObject({ for: 'name', 'data-test-id': 'label' });
+		expect((vnode.children[0] as VNodeElement).props.value).toBe('Ada');
+	});
+
+	it('rejects unknown elements, attributes and mistyped handlers', () => {
+		const invalid = () => [
+			// @ts-expect-error unknown element
+			<nosuchtag />,
+			// @ts-expect-error misspelled attribute
+			<input valeu="Ada" />,
+			// @ts-expect-error attribute of another element
+			<div href="/" />,
+			// @ts-expect-error a click is not a keyboard event
+			<button onclick={(event: KeyboardEvent) => event.key} />,
+			// @ts-expect-error disabled is a boolean
+			<button disabled={1} />,
+		];
+		expectTypeOf(invalid).returns.toEqualTypeOf<VNode[]>();
+	});
+
+	it('types SVG elements', () => {
+		const vnode = (
+			<svg viewBox="0 0 10 10">
+				<circle cx={5} cy={5} r={4} onclick={(event) => event.clientX} />
+			</svg>
+		) as VNodeElement;
+
+		expect((vnode.children[0] as VNodeElement).props.r).toBe(4);
+	});
+
+	it('checks component props against the constructor', () => {
+		const vnode = (
+			<Badge label="New" count={2} key="badge" />
+		) as VNodeComponent;
+
+		expect(vnode.component).toBeInstanceOf(Badge);
+		expect(vnode.props).toEqual({ label: 'New', count: 2 });
+
+		const invalid = () => [
+			// @ts-expect-error label is required
+			<Badge />,
+			// @ts-expect-error label is a string
+			<Badge label={1} />,
+			// @ts-expect-error unknown prop
+			<Badge label="New" color="red" />,
+		];
+		expectTypeOf(invalid).returns.toEqualTypeOf<VNode[]>();
+	});
+
+	it('renders fragments', () => {
+		const vnode = (
+			<>
+				<dt>Term</dt>
+				<dd>Definition</dd>
+			</>
+		) as VNodeFragment;
+
+		expect(vnode.type).toBe('fragment');
+		expect(vnode.children).toHaveLength(2);
+	});
+});
@@ -0,0 +1,93 @@
+/**
+ * Runtime and types of TSX
+ * tsconfig.json compiles TSX with the JSX factory of jsx-vdom.ts
+ * ("jsxFactory": "jsx", "jsxFragmentFactory": "Fragment"), so a .tsx file
+ * imports both from here:
+ * import { Fragment, jsx } from '../utils/jsx-runtime';
+ * Intrinsic elements are typed from the DOM's element interfaces, and the
+ * props of a component from its constructor (see TComponentConstructor).
+ */
+
+import { Component } from './component';
+import {
+	TDataAttributes,
+	TElementEvent,
+	TElementEventMap,
+	TElementProperties,
+} from './dom-types';
+import { Fragment, jsx } from './jsx-vdom';
+import { TRef, VNode } from './vdom';
+
+export { Fragment, jsx };
+
+// Content accepted as children, booleans and null render nothing
+type TChild = VNode | string | number | boolean | null | undefined | TChild[];
+
+/**
+ * Attributes of an element, from its writable primitive properties
+ * Props are set as attributes whose names are case-insensitive, so
+ * tabIndex or readOnly set tabindex and readonly, but htmlFor is for
+ */
+type TElementAttributes<E> = Omit<TElementProperties<E>, 'htmlFor'>;
+
+// Event handlers, onclick receives a MouseEvent
+type TEventHandlers<E extends Element> = {
+	[K in keyof TElementEventMap as `on${K}`]?: (
+		event: TElementEvent<E, K>
+	) => void;
+};
+
+type TCommonProps<E extends Element> = TEventHandlers<E> &
+	TDataAttributes & {
+		key?: string | number;
+		ref?: TRef<E>;
+		class?: string;
+		for?: string;
+		style?: string | Record<string, string | number>;
+		children?: TChild;
+		// Handlers with modifiers, e.g. onsubmit:prevent or onscroll:passive
+		[event: `on${string}:${string}`]: ((event: any) => void) | undefined;
+	};
+
+// Props of an HTML element
+type THTMLProps<E extends Element> = TElementAttributes<E> & TCommonProps<E>;
+
+// Props of an SVG element, whose properties are animated values and
+// don't describe the attributes
+type TSVGProps<E extends Element> = TCommonProps<E> & {
+	[attribute: string]: any;
+};
+
+type TIntrinsicElements = {
+	[K in keyof HTMLElementTagNameMap]: THTMLProps<HTMLElementTagNameMap[K]>;
+} & {
+	[
+		K in Exclude<keyof SVGElementTagNameMap, keyof HTMLElementTagNameMap>
+	]: TSVGProps<SVGElementTagNameMap[K]>;
+};
+
+declare global {
+	namespace JSX {
+		type Element = VNode;
+
+		// Class components extend Component, their props are the first
+		// parameter of their constructor, like TComponentConstructor<P>
+		// (ElementAttributesProperty is not declared for that)
+		interface ElementClass extends Component {}
+
+		interface ElementChildrenAttribute {
+			children: {};
+		}
+
+		interface IntrinsicAttributes {
+			key?: string | number;
+		}
+
+		// The ref of a component receives its handle
+		interface IntrinsicClassAttributes<T> {
+			ref?: TRef<any>;
+		}
+
+		interface IntrinsicElements extends TIntrinsicElements {}
+	}
+}
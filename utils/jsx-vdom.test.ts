@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Component } from './component';
+import { parseHTMLString } from './html-parser';
+import { html, useComponent } from './jsx-vdom';
+import {
+	VNode,
+	VNodeComponent,
+	VNodeElement,
+	VNodeFragment,
+	createElement,
+} from './vdom';
+
+// Count the templates parsed
+vi.mock('./html-parser', async (importOriginal) => {
+	const original = await importOriginal<typeof import('./html-parser')>();
+	return { ...original, parseHTMLString: vi.fn(original.parseHTMLString) };
+});
+
+class First extends Component {
+	protected render(): VNode {
+		return createElement('span', {}, 'first');
+	}
+}
+
+class Second extends Component {
+	protected render(): VNode {
+		return createElement('span', {}, 'second');
+	}
+}
+
+// Renders the class it is given, with the same key each time
+class Switcher extends Component {
+	constructor(private ChildClass: new () => Component) {
+		super();
+	}
+
+	public renderWith(ChildClass: new () => Component): VNodeComponent {
+		this.ChildClass = ChildClass;
+		return this.callRender() as VNodeComponent;
+	}
+
+	protected render(): VNode {
+		return useComponent(this.ChildClass, {}, 'child');
+	}
+}
+
+class Item extends Component {
+	protected render(): VNode {
+		return createElement('li', {}, 'item');
+	}
+}
+
+// Renders an item only while it's shown, then one always, with or
+// without keys
+class Items extends Component {
+	public showFirst = true;
+
+	constructor(private keyed: boolean) {
+		super();
+	}
+
+	public renderItems(): Component[] {
+		// A single child is rendered without a fragment
+		const vnode = this.callRender() as VNodeFragment | VNodeComponent;
+		const children = vnode.type === 'fragment' ? vnode.children : [vnode];
+		return children.map((child) => (child as VNodeComponent).component);
+	}
+
+	protected render(): VNode {
+		const first = this.keyed ? 'first' : undefined;
+		const last = this.keyed ? 'last' : undefined;
+		return html`${this.showFirst ? useComponent(Item, {}, first) : null}${useComponent(Item, {}, last)}`;
+	}
+}
+
+const flushMicrotasks = () =>
+	new Promise<void>((resolve) => setTimeout(resolve));
+
+describe('useComponent', () => {
+	it('creates a new child when a render switches the class of a key', () => {
+		const switcher = new Switcher(First);
+		const first = switcher.renderWith(First).component;
+		const second = switcher.renderWith(Second).component;
+
+		expect(first).toBeInstanceOf(First);
+		expect(second).toBeInstanceOf(Second);
+		expect(switcher.renderWith(Second).component).toBe(second);
+	});
+
+	it('keeps a keyed child next to a conditional sibling', () => {
+		const items = new Items(true);
+		const [, last] = items.renderItems();
+
+		items.showFirst = false;
+		expect(items.renderItems()).toEqual([last]);
+	});
+
+	it('warns when the number of unkeyed children of a class changes', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const items = new Items(false);
+		items.renderItems();
+
+		items.showFirst = false;
+		items.renderItems();
+		items.showFirst = true;
+		items.renderItems();
+		await flushMicrotasks();
+
+		expect(warn).toHaveBeenCalledOnce();
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining('Items rendered 1 unkeyed Item children after 2')
+		);
+		warn.mockRestore();
+	});
+});
+
+class Card extends Component {
+	protected render(): VNode {
+		return createElement('article', {}, this.props.children);
+	}
+}
+
+describe('html', () => {
+	it('parses a template once and plugs the values of each call into it', () => {
+		const parse = vi.mocked(parseHTMLString);
+		parse.mockClear();
+		const row = (id: number, label: string) =>
+			html`<tr key=${id} class="row-${id}">
+				<td>${label}</td>
+			</tr>` as VNodeElement;
+
+		const rows = [1, 2, 3].map((id) => row(id, `Item ${id}`));
+
+		expect(parse).toHaveBeenCalledOnce();
+		expect(rows.map((vnode) => vnode.key)).toEqual([1, 2, 3]);
+		expect(rows[2].props.class).toBe('row-3');
+		const cell = rows[2].children.find((child) => child.type === 'element');
+		expect(cell).toMatchObject({
+			tagName: 'td',
+			children: [{ type: 'text', text: 'Item 3' }],
+		});
+
+		html`<tr>
+			<td>${'other'}</td>
+		</tr>`;
+		expect(parse).toHaveBeenCalledTimes(2);
+	});
+
+	it('passes the attributes and content of component tags as props', () => {
+		const onOpen = () => {};
+		const vnode =
+			html`<${Card} key="card" title="Hi" count=${3} onopen=${onOpen}>
+			<p>body</p>
+		</${Card}>` as VNodeComponent;
+
+		expect(vnode.component).toBeInstanceOf(Card);
+		expect(vnode.componentKey).toBe('card');
+		expect(vnode.props).toMatchObject({
+			title: 'Hi',
+			count: 3,
+			onopen: onOpen,
+		});
+		expect(vnode.props.children).toEqual([createElement('p', {}, 'body')]);
+
+		const again = html`<${Card} key="card" title="Bye" />` as VNodeComponent;
+		expect(again.component).toBe(vnode.component);
+		expect(again.props).toEqual({ title: 'Bye' });
+	});
+
+	it('renders a component tag given a tag name as an element', () => {
+		const tag = 'section';
+		const vnode = html`<${tag} class="box"><p>a</p></${tag}>` as VNodeElement;
+
+		expect(vnode).toMatchObject({
+			tagName: 'section',
+			props: { class: 'box' },
+		});
+		expect(vnode.children).toHaveLength(1);
+	});
+});
@@ -1,17 +1,86 @@
-import { Component } from './component';
-import { createElement, VNode, VNodeComponent } from './vdom';
-
-// Component instance cache to preserve instances between renders
+import { Component, TRenderFrame, getCurrentRender } from './component';
+import { TComponentConstructor } from './component-types';
+import { COMPONENT_TAG_PATTERN, parseHTMLString } from './html-parser';
+import { UnsafeHTML } from './unsafe-html';
+import {
+	createElement,
+	createFragment,
+	destroyComponent,
+	onComponentUnmount,
+	TRef,
+	VNode,
+	VNodeComponent,
+	VNodeElement,
+} from './vdom';
+
+// Component instance cache to preserve instances between renders,
+// for components created outside of a component's render
 type ComponentKey = string;
 const componentCache = new Map<ComponentKey, Component>();
 
 // Track component counter for unique keys
 let componentCounter = 0;
 
+// Child components a component created in its renders
+type TChildScope = {
+	// Render the unkeyed children were counted in
+	render: TRenderFrame | null;
+	// Number of unkeyed children of each class in that render
+	positions: Map<Function, number>;
+	// Classes whose unkeyed children were already reported
+	reported: Set<Function>;
+	// Children by their class, then by their key or position
+	instances: Map<Function, Map<ComponentKey, Component>>;
+};
+
+const childScopes = new WeakMap<Component, TChildScope>();
+
+// Children of a class in a scope, and the key of each child in them,
+// to forget it when it leaves the tree
+const childEntries = new WeakMap<
+	Component,
+	{ instances: Map<ComponentKey, Component>; key: ComponentKey }
+>();
+
+// Unkeyed children coming and going are reported in development builds
+// only (webpack replaces process.env.NODE_ENV with the build mode)
+const reportUnkeyedChildren = process.env.NODE_ENV !== 'production';
+
+// Ids of component classes, class names can't tell them apart once
+// minified
+const classIds = new WeakMap<Function, number>();
+let classCounter = 0;
+
+const getClassId = (ComponentClass: Function): number => {
+	let id = classIds.get(ComponentClass);
+	if (id === undefined) {
+		id = classCounter++;
+		classIds.set(ComponentClass, id);
+	}
+	return id;
+};
+
+// Forget components the renderer destroyed, so a later render with the
+// same key creates a fresh instance instead of reusing a destroyed one
+onComponentUnmount((component) => {
+	for (const [key, cached] of componentCache.entries()) {
+		if (cached === component) {
+			componentCache.delete(key);
+		}
+	}
+
+	const entry = childEntries.get(component);
+	if (entry && entry.instances.get(entry.key) === component) {
+		entry.instances.delete(entry.key);
+	}
+});
+
 /**
  * Clear the component cache
  * Call this when navigating to a different page
  * Components with explicit keys are preserved
+ * Only components created outside of a render are cached, the children
+ * of a component belong to it and leave with it
  */
 export const clearComponentCache = (): void => {
 	// Find components to keep (those with explicit keys)
@@ -25,9 +94,7 @@ export const clearComponentCache = (): void => {
 			componentsToKeep.set(key, component);
 		} else {
 			// Destroy components we're removing
-			if (typeof component.destroy === 'function') {
-				component.destroy();
-			}
+			destroyComponent(component);
 		}
 	}
 
@@ -43,330 +110,562 @@ export const clearComponentCache = (): void => {
 	componentCounter = 0;
 };
 
+/**
+ * Fragment of the JSX factory, <>...</> renders its children without a
+ * wrapper element
+ */
+export const Fragment = (props: { children?: any }): VNode => {
+	return createFragment([props.children]);
+};
+
 /**
  * JSX factory function that creates virtual DOM nodes
  * This is a drop-in replacement for the old JSX implementation
  * but instead of creating real DOM nodes directly, it creates
  * virtual DOM nodes that can be efficiently diffed and patched
+ * The type is a tag name, Fragment, a component class (rendered with
+ * useComponent(), its key keeps the instance) or a function returning a
+ * VNode. Children are passed to components as the children prop.
  */
 export const jsx = (
-	tagName: string,
+	type: string | TComponentConstructor<any> | ((props: any) => VNode),
 	props: Record<string, any> | null,
 	...children: any[]
 ): VNode => {
-	return createElement(tagName, props || {}, ...children);
-};
+	if (typeof type === 'string') {
+		return createElement(type, props || {}, ...children);
+	}
 
-/**
- * Tagged template literal function for JSX-like syntax
- * This is a more ergonomic way to create virtual DOM nodes
- * using template literals instead of JSX
- */
-export const html = (
-	strings: TemplateStringsArray,
-	...values: any[]
-): VNode => {
-	// Combine the template strings and values into a single HTML string
-	let combinedString = '';
-	const valuesWithPlaceholders: any[] = [];
-
-	// Replace values with placeholders to parse as HTML
-	for (let i = 0; i < strings.length; i++) {
-		combinedString += strings[i];
-
-		if (i < values.length) {
-			// If the value is a function or object, or an array, add a placeholder and store the value
-			if (
-				typeof values[i] === 'function' ||
-				Array.isArray(values[i]) ||
-				(typeof values[i] === 'object' && values[i] !== null)
-			) {
-				// Special handling for Component instances
-				if (values[i] instanceof Component) {
-					// Use a special placeholder for components
-					combinedString += `<component-placeholder data-index="${valuesWithPlaceholders.length}"></component-placeholder>`;
-					valuesWithPlaceholders.push(values[i]);
-				} else {
-					combinedString += `__VDOM_PLACEHOLDER_${valuesWithPlaceholders.length}__`;
-					valuesWithPlaceholders.push(values[i]);
-				}
-			} else {
-				// For primitives, we can inline them directly
-				combinedString += values[i];
-			}
-		}
+	const { key, ...rest } = props || {};
+
+	// A keyed fragment can be moved as a whole in a list
+	if (type === Fragment) {
+		return createFragment(children, key);
 	}
 
-	// Parse the HTML string into a virtual DOM tree
-	const vdom = parseHTML(combinedString);
-	// Replace placeholders with actual values
-	return replacePlaceholders(vdom, valuesWithPlaceholders);
+	const childNodes = createFragment(children).children;
+	const componentProps = childNodes.length
+		? { ...rest, children: childNodes }
+		: rest;
+
+	if (type.prototype instanceof Component) {
+		return useComponent(
+			type as TComponentConstructor<any>,
+			componentProps,
+			key === undefined ? undefined : String(key)
+		);
+	}
+
+	return (type as (props: any) => VNode)(componentProps);
 };
 
+// Marks where a value goes in the markup of a template while it is parsed
+const PLACEHOLDER_PATTERN = /__VDOM_PLACEHOLDER_(\d+)__/;
+
+// Part of a text or attribute: static text, or the index of a value
+type TemplatePart = string | number;
+
 /**
- * Parse an HTML string into a virtual DOM tree
+ * Instruction of a compiled template
+ * Running them in order with the values of a call builds its VNodes
  */
-const parseHTML = (html: string): VNode => {
-	// Create a temporary container
-	const template = document.createElement('template');
-	template.innerHTML = html.trim();
+type TemplateInstruction =
+	// Open an element with the props and key written in the template
+	// A component tag has the index of its component instead of a tag name
+	| {
+			op: 'open';
+			tagName: string;
+			props: Record<string, any>;
+			key?: string;
+			component?: number;
+	  }
+	// Set a prop of the open element from values
+	| { op: 'attr'; name: string; parts: TemplatePart[] }
+	// Set the key of the open element from values
+	| { op: 'key'; parts: TemplatePart[] }
+	| { op: 'close' }
+	| { op: 'text'; text: string }
+	// Text with values, which may also be VNodes, lists or components
+	// path is the position in the template, to key components
+	| { op: 'content'; parts: TemplatePart[]; path: string };
+
+// Compiled templates, by the strings of their tagged template literal,
+// which are the same object for every call of the same template
+const templateCache = new WeakMap<
+	TemplateStringsArray,
+	TemplateInstruction[]
+>();
 
-	// Get the first child
-	const firstChild = template.content.firstChild;
+/**
+ * Split text around placeholders, null if it has none
+ */
+const splitParts = (text: string): TemplatePart[] | null => {
+	const pieces = text.split(PLACEHOLDER_PATTERN);
+	if (pieces.length === 1) {
+		return null;
+	}
 
-	// Convert the DOM node to a virtual DOM node
-	return domToVNode(firstChild as Element);
+	// Captured indexes are at the odd positions
+	return pieces
+		.map((piece, i) => (i % 2 ? parseInt(piece, 10) : piece))
+		.filter((part) => part !== '');
 };
 
 /**
- * Convert a DOM node to a virtual DOM node
+ * Compile parsed template nodes into instructions
  */
-const domToVNode = (node: Node, path: string = '0'): VNode => {
-	// Handle text nodes
-	if (node.nodeType === Node.TEXT_NODE) {
-		return {
-			type: 'text',
-			text: node.textContent || '',
-		};
-	}
+const compileNodes = (
+	nodes: VNode[],
+	instructions: TemplateInstruction[],
+	path: string
+): void => {
+	nodes.forEach((node, i) => {
+		const nodePath = `${path}-${i}`;
+
+		if (node.type === 'text') {
+			const parts = splitParts(node.text);
+			instructions.push(
+				parts
+					? { op: 'content', parts, path: nodePath }
+					: { op: 'text', text: node.text }
+			);
+			return;
+		}
 
-	// Handle element nodes
-	if (node.nodeType === Node.ELEMENT_NODE) {
-		const el = node as Element;
-		const tagName = el.tagName.toLowerCase();
+		if (node.type !== 'element') {
+			return;
+		}
 
-		// Get attributes as props
 		const props: Record<string, any> = {};
-		let key: string | number | undefined = undefined;
-
-		for (const attr of Array.from(el.attributes)) {
-			// Check for key attribute
-			if (attr.name === 'key') {
-				key = attr.value;
-				// Don't include key in props, it's handled separately
-				continue;
-			}
+		const dynamic: TemplateInstruction[] = [];
 
-			// Preserve all other attributes as they are in the DOM
-			props[attr.name] = attr.value;
+		for (const [name, value] of Object.entries(node.props)) {
+			const parts = typeof value === 'string' ? splitParts(value) : null;
+			if (parts) {
+				dynamic.push({ op: 'attr', name, parts });
+			} else {
+				props[name] = value;
+			}
 		}
 
-		// Check for component placeholder
-		if (tagName === 'component-placeholder') {
-			// Return element as is, it will be processed in replacePlaceholders
-			return {
-				type: 'element',
-				tagName,
-				props,
-				children: [],
-			};
+		const keyParts = typeof node.key === 'string' ? splitParts(node.key) : null;
+		if (keyParts) {
+			dynamic.push({ op: 'key', parts: keyParts });
 		}
 
-		// Get children with path information
-		const children: VNode[] = Array.from(el.childNodes).map(
-			(childNode, index) => domToVNode(childNode, `${path}-${index}`)
-		);
+		const componentTag = COMPONENT_TAG_PATTERN.exec(node.tagName);
 
-		return {
-			type: 'element',
-			tagName,
+		instructions.push({
+			op: 'open',
+			tagName: node.tagName,
 			props,
-			children,
-			key, // Include key if present
-		};
+			key: keyParts ? undefined : (node.key as string | undefined),
+			component: componentTag ? parseInt(componentTag[1], 10) : undefined,
+		});
+		instructions.push(...dynamic);
+		compileNodes(node.children, instructions, nodePath);
+		instructions.push({ op: 'close' });
+	});
+};
+
+/**
+ * Parse a template once into the instructions building its VNodes
+ * Values are replaced by placeholders, so the markup is the same for
+ * every call and can be parsed without them
+ */
+const compileTemplate = (
+	strings: TemplateStringsArray
+): TemplateInstruction[] => {
+	let markup = strings[0];
+	for (let i = 1; i < strings.length; i++) {
+		// An unquoted attribute value would take the / of a self-closing tag
+		const separator =
+			/=\s*$/.test(strings[i - 1]) && strings[i].startsWith('/') ? ' ' : '';
+
+		// A value right after < or </ is the component of a tag
+		const value = /<\/?$/.test(strings[i - 1])
+			? `vdom-component-${i - 1}`
+			: `__VDOM_PLACEHOLDER_${i - 1}__`;
+		markup += `${value}${separator}${strings[i]}`;
 	}
 
-	// Default fallback (should not happen)
-	return {
-		type: 'text',
-		text: '',
-	};
+	// Whitespace between top-level nodes is only template formatting
+	const roots = parseHTMLString(markup.trim()).filter(
+		(node) => node.type !== 'text' || node.text.trim()
+	);
+
+	const instructions: TemplateInstruction[] = [];
+	compileNodes(roots, instructions, '0');
+	return instructions;
 };
 
 /**
- * Replace placeholders in the virtual DOM tree with actual values
+ * Get the value of a prop or key from its parts
+ * A value filling the whole attribute is passed as it is (functions,
+ * objects, numbers...), with other text it is joined into a string
  */
-const replacePlaceholders = (
-	vnode: VNode,
-	values: any[],
-	path: string = '0'
-): VNode => {
-	// Special handling for component placeholders
-	if (
-		vnode.type === 'element' &&
-		vnode.tagName === 'component-placeholder' &&
-		vnode.props &&
-		'data-index' in vnode.props
-	) {
-		const index = parseInt(vnode.props['data-index'] as string, 10);
-		const value = values[index];
-
-		// Handle Component instances
-		if (value instanceof Component) {
-			// Generate a stable component key based on the component's position in the tree
-			const componentKey = `explicit-component-${path}`;
+const resolveParts = (parts: TemplatePart[], values: any[]): any => {
+	if (parts.length === 1 && typeof parts[0] === 'number') {
+		const value = values[parts[0]];
+
+		// A component VNode in an attribute passes its instance
+		if (value && typeof value === 'object' && value.type === 'component') {
+			return value.component;
+		}
+		return value;
+	}
+
+	return parts
+		.map((part) => {
+			if (typeof part === 'string') {
+				return part;
+			}
+			const value = values[part];
+			return value === null || value === undefined ? '' : String(value);
+		})
+		.join('');
+};
+
+/**
+ * Append text with values to a list of children
+ * Text and primitive values are joined into one text node, never parsed as
+ * markup. VNodes, lists, components and unsafeHTML() become nodes of their
+ * own. Whitespace with a line break
+ * next to those nodes is only template formatting and is dropped.
+ */
+const appendContent = (
+	children: VNode[],
+	parts: TemplatePart[],
+	path: string,
+	values: any[]
+): void => {
+	let text = '';
+	let nextToNode = false;
+
+	const flushText = (beforeNode: boolean) => {
+		const formatting = /^\s*\n\s*$/.test(text) && (beforeNode || nextToNode);
+		if (text && !formatting) {
+			children.push({ type: 'text', text });
+		}
+		text = '';
+	};
+
+	const appendNode = (node: VNode) => {
+		flushText(true);
+		children.push(node);
+		nextToNode = true;
+	};
 
-			// Use the component directly
-			return {
+	parts.forEach((part, i) => {
+		if (typeof part === 'string') {
+			text += part;
+			return;
+		}
+
+		const value = values[part];
+
+		if (value instanceof Component) {
+			// Component instances keep a key from their place in the template
+			appendNode({
 				type: 'component',
 				component: value,
-				props: vnode.props,
-				componentKey,
-			} as any;
+				props: {},
+				componentKey: `explicit-component-${path}-${i}`,
+			});
+		} else if (value instanceof UnsafeHTML) {
+			// Trusted markup is parsed with the call, its nodes are fresh
+			flushText(true);
+			children.push(...parseHTMLString(value.markup));
+			nextToNode = true;
+		} else if (Array.isArray(value)) {
+			// Items of a list are rendered side by side in a fragment
+			appendNode(createFragment(value));
+		} else if (value && typeof value === 'object' && value.type) {
+			appendNode(value);
+		} else if (
+			value !== null &&
+			value !== undefined &&
+			typeof value !== 'boolean'
+		) {
+			// null, undefined and booleans render nothing, e.g. ${ok && html`...`}
+			text += String(value);
 		}
+	});
+
+	flushText(false);
+};
+
+/**
+ * Create the VNode of a component tag, e.g.
+ * <${RefCounter} key="counter-1" label="Clicks">...</${RefCounter}>
+ * Attributes are the props and the content is the children prop. Like
+ * with useComponent(), a key keeps the same instance between renders.
+ * A string instead of a component is the tag name of an element.
+ */
+const createTagComponent = (component: any, tag: VNodeElement): VNode => {
+	// Whitespace with a line break around the content is only formatting
+	const children = tag.children.filter(
+		(child) => child.type !== 'text' || !/^\s*\n\s*$/.test(child.text)
+	);
+
+	if (typeof component === 'string') {
+		return { ...tag, tagName: component, children };
 	}
 
-	if (vnode.type === 'text' && vnode.text) {
-		// Check if the text contains a placeholder
-		const placeholderRegex = /__VDOM_PLACEHOLDER_(\d+)__/g;
-		let match;
-		let newText = vnode.text;
+	if (typeof component !== 'function') {
+		throw new Error(
+			`A component tag needs a component class, got ${String(component)}`
+		);
+	}
 
-		while ((match = placeholderRegex.exec(vnode.text)) !== null) {
-			const index = parseInt(match[1], 10);
-			const value = values[index];
+	const props = children.length ? { ...tag.props, children } : tag.props;
+	return useComponent(
+		component,
+		props,
+		tag.key === undefined ? undefined : String(tag.key)
+	);
+};
 
-			// Check if this is a VNodeComponent from useComponent
-			if (value && typeof value === 'object' && value.type === 'component') {
-				// Return the component node directly
-				return value;
-			}
+/**
+ * Build the VNodes of a compiled template with the values of a call
+ */
+const runTemplate = (
+	instructions: TemplateInstruction[],
+	values: any[]
+): VNode => {
+	const roots: VNode[] = [];
+	// Open elements, with the component of component tags
+	const open: { vnode: VNodeElement; component?: any }[] = [];
+	const current = () => open[open.length - 1].vnode;
+	const children = () => (open.length ? current().children : roots);
+
+	for (const instruction of instructions) {
+		switch (instruction.op) {
+			case 'open': {
+				const vnode: VNodeElement = {
+					type: 'element',
+					tagName: instruction.tagName,
+					props: { ...instruction.props },
+					children: [],
+					key: instruction.key,
+				};
 
-			// If we find a placeholder that represents an array of VNodes,
-			// we'll return a special wrapper element containing those nodes
-			if (Array.isArray(value)) {
-				// If the array contains VNodes, return a fragment
-				if (
-					value.length > 0 &&
-					value.every((item) => typeof item === 'object' && item.type)
-				) {
-					return {
-						type: 'element',
-						tagName: 'fragment',
-						props: {},
-						children: value,
-					};
+				// Component tags collect their props and children, the
+				// component is added when the tag is closed
+				if (instruction.component === undefined) {
+					children().push(vnode);
+					open.push({ vnode });
+				} else {
+					open.push({ vnode, component: values[instruction.component] });
 				}
-				// Otherwise, it's an array of strings/primitives, join them
-				return {
-					type: 'text',
-					text: value.join(''),
-				};
+				break;
 			}
+			case 'attr':
+				current().props[instruction.name] = resolveParts(
+					instruction.parts,
+					values
+				);
+				break;
+			case 'key':
+				current().key = resolveParts(instruction.parts, values);
+				break;
+			case 'close': {
+				const { vnode, component } = open.pop()!;
+				if (component !== undefined) {
+					children().push(createTagComponent(component, vnode));
+				}
+				break;
+			}
+			case 'text':
+				children().push({ type: 'text', text: instruction.text });
+				break;
+			case 'content':
+				appendContent(children(), instruction.parts, instruction.path, values);
+				break;
+		}
+	}
 
-			// For regular values
-			// Replace the placeholder with the value
-			newText = newText.replace(match[0], '');
+	// A single root is returned as is, several become one fragment
+	return roots.length === 1 ? roots[0] : createFragment(roots);
+};
 
-			// If the value is a string, we can inline it
-			if (typeof value === 'string') {
-				newText = value;
-			}
+/**
+ * Tagged template literal function for JSX-like syntax
+ * This is a more ergonomic way to create virtual DOM nodes
+ * using template literals instead of JSX
+ * Each template is parsed once, later calls only plug their values into
+ * the compiled template. Strings are escaped text, use unsafeHTML() to
+ * render trusted markup.
+ */
+export const html = (
+	strings: TemplateStringsArray,
+	...values: any[]
+): VNode => {
+	let instructions = templateCache.get(strings);
+	if (!instructions) {
+		instructions = compileTemplate(strings);
+		templateCache.set(strings, instructions);
+	}
 
-			// If the value is a VNode, we return it directly
-			if (value && typeof value === 'object' && value.type) {
-				return value;
-			}
-		}
+	return runTemplate(instructions, values);
+};
 
-		// If the text changed, return a new text node
-		if (newText !== vnode.text) {
-			return {
-				type: 'text',
-				text: newText,
-			};
-		}
+/**
+ * Create a component with its props
+ * Components passing a tag name to their base class don't keep the props
+ * given to their constructor, they are set afterwards
+ */
+const createInstance = <P extends Record<string, any>>(
+	ComponentClass: new (props?: P) => Component,
+	props: P | undefined
+): Component => {
+	const instance = new ComponentClass(props);
+	if (props) {
+		instance.updateProps(props);
 	}
+	return instance;
+};
 
-	// Handle element nodes
-	if (vnode.type === 'element') {
-		// Check for placeholders in attributes
-		const newProps: Record<string, any> = { ...vnode.props };
-		let key = vnode.key; // Preserve the original key
-
-		for (const [propKey, value] of Object.entries(vnode.props || {})) {
-			if (typeof value === 'string') {
-				const placeholderRegex = /__VDOM_PLACEHOLDER_(\d+)__/g;
-				let match;
-
-				if ((match = placeholderRegex.exec(value)) !== null) {
-					const index = parseInt(match[1], 10);
-					const placeholderValue = values[index];
-
-					// Handle key replacements specially
-					if (propKey === 'key') {
-						key = placeholderValue;
-						// Don't add key to props, it's handled separately
-						delete newProps[propKey];
-						continue;
-					}
-
-					// Special handling for components used in attribute values
-					if (
-						placeholderValue &&
-						typeof placeholderValue === 'object' &&
-						placeholderValue.type === 'component'
-					) {
-						// Extract the actual component instance for attribute values
-						newProps[propKey] = placeholderValue.component;
-					} else {
-						newProps[propKey] = placeholderValue;
-					}
-				}
-			}
+/**
+ * Report the classes a component rendered another number of unkeyed
+ * children of than in its previous render
+ * Unkeyed children are told apart by their order, so with one more or one
+ * less the following ones get the state of another child
+ */
+const warnUnkeyedChanges = (
+	component: Component,
+	previous: Map<Function, number>,
+	current: Map<Function, number>,
+	reported: Set<Function>
+): void => {
+	for (const ComponentClass of new Set([
+		...previous.keys(),
+		...current.keys(),
+	])) {
+		const before = previous.get(ComponentClass) || 0;
+		const now = current.get(ComponentClass) || 0;
+		if (before === now || reported.has(ComponentClass)) {
+			continue;
 		}
+		reported.add(ComponentClass);
+		console.warn(
+			`${component.constructor.name} rendered ${now} unkeyed ${ComponentClass.name} children after ${before}, ` +
+				'give the ones rendered conditionally or in a list a key so each keeps its state'
+		);
+	}
+};
 
-		// Check for placeholders in children
-		let newChildren: VNode[] = [];
-
-		if (vnode.children) {
-			for (let i = 0; i < vnode.children.length; i++) {
-				const child = vnode.children[i];
-				const childPath = `${path}-${i}`;
-				const replacedChild = replacePlaceholders(child, values, childPath);
-
-				// Handle fragment nodes (arrays of VNodes)
-				if (
-					replacedChild.type === 'element' &&
-					replacedChild.tagName === 'fragment'
-				) {
-					// Add all fragment children instead of the fragment itself
-					if (replacedChild.children) {
-						newChildren = newChildren.concat(replacedChild.children);
-					}
-				} else {
-					newChildren.push(replacedChild);
-				}
-			}
+/**
+ * Get the child of the component of a render, creating it the first time
+ * A child is identified by its class and its key, or without one by its
+ * position among the children of that class the render created, so it
+ * keeps its state across the renders of its parent. Children rendered
+ * conditionally or in a list need a key, their positions change.
+ */
+const getChild = <P extends Record<string, any>>(
+	render: TRenderFrame,
+	ComponentClass: new (props?: P) => Component,
+	props: P | undefined,
+	key: string | undefined
+): [Component, ComponentKey] => {
+	let scope = childScopes.get(render.component);
+	if (!scope) {
+		scope = {
+			render: null,
+			positions: new Map(),
+			reported: new Set(),
+			instances: new Map(),
+		};
+		childScopes.set(render.component, scope);
+	}
+
+	// Unkeyed children are counted again in each render, and compared
+	// with the previous one once the render is over
+	if (scope.render !== render) {
+		const previous = scope.render ? scope.positions : null;
+		const positions = new Map<Function, number>();
+		scope.render = render;
+		scope.positions = positions;
+		if (reportUnkeyedChildren && previous) {
+			const { component } = render;
+			const { reported } = scope;
+			queueMicrotask(() =>
+				warnUnkeyedChanges(component, previous, positions, reported)
+			);
 		}
+	}
 
-		return {
-			type: 'element',
-			tagName: vnode.tagName,
-			props: newProps,
-			children: newChildren,
-			key, // Include the key in the returned element
-		};
+	let childKey = key;
+	if (childKey === undefined) {
+		const position = scope.positions.get(ComponentClass) || 0;
+		scope.positions.set(ComponentClass, position + 1);
+		childKey = `${getClassId(ComponentClass)}#${position}`;
+	}
+
+	let instances = scope.instances.get(ComponentClass);
+	if (!instances) {
+		instances = new Map();
+		scope.instances.set(ComponentClass, instances);
+	}
+
+	// A child of another class with the same key is replaced when the
+	// render is patched, which destroys it
+	let instance = instances.get(childKey);
+	if (instance) {
+		if (props) {
+			instance.updateProps(props);
+		}
+	} else {
+		instance = createInstance(ComponentClass, props);
+		instances.set(childKey, instance);
+		childEntries.set(instance, { instances, key: childKey });
 	}
 
-	return vnode;
+	return [instance, childKey];
 };
 
 /**
  * Create a component VNode with proper typing
  * Props are optional if the component doesn't require them
+ * A ref prop is not passed to the component, it receives its handle
+ * Called in a render, the instance belongs to the rendering component:
+ * the same key, or the same position without one, gets the same instance
+ * in its next renders, until it leaves the tree
  */
 export const useComponent = <P extends Record<string, any> = {}>(
 	ComponentClass: new (props?: P) => Component,
-	props?: P,
+	propsWithRef?: P & { ref?: TRef<any> },
 	key?: string
 ): VNodeComponent => {
+	const { ref, ...rest } = (propsWithRef || {}) as P & { ref?: TRef<any> };
+	const props = propsWithRef ? (rest as unknown as P) : undefined;
+
+	// In a render, the child belongs to the component rendering it
+	const render = getCurrentRender();
+	if (render) {
+		const [instance, childKey] = getChild(render, ComponentClass, props, key);
+		return {
+			type: 'component',
+			component: instance,
+			props: (props || {}) as Record<string, any>,
+			componentKey: childKey,
+			ref,
+		};
+	}
+
 	// Generate a unique key for this component instance
 	// Use provided key or component name + counter
 	const cacheKey = key || `${ComponentClass.name}-${componentCounter++}`;
 
 	let instance: Component;
 
+	// An instance of another class with this key is replaced
+	const cached = componentCache.get(cacheKey);
+	if (cached && !(cached instanceof ComponentClass)) {
+		componentCache.delete(cacheKey);
+		destroyComponent(cached);
+	}
+
 	// Check if we already have an instance with this key
 	if (componentCache.has(cacheKey)) {
 		// Reuse existing instance
@@ -378,7 +677,7 @@ export const useComponent = <P extends Record<string, any> = {}>(
 		}
 	} else {
 		// Create new instance if not found in cache
-		instance = new ComponentClass(props);
+		instance = createInstance(ComponentClass, props);
 
 		// Store in cache for future reference
 		componentCache.set(cacheKey, instance);
@@ -389,5 +688,6 @@ export const useComponent = <P extends Record<string, any> = {}>(
 		component: instance,
 		props: (props || {}) as Record<string, any>,
 		componentKey: cacheKey,
+		ref,
 	};
 };
@@ -1,4 +1,5 @@
 import { Component } from './component';
+import { UnsafeHTML } from './unsafe-html';
 
 type TElementOrString =
 	| HTMLElement
@@ -10,6 +11,8 @@ type TElementOrString =
 /**
  * A minimal JSX-like parser using tagged template literals
  * Usage: html`<div class="container"><h1>${title}</h1><p>${content}</p></div>`
+ * Values are set as text or attribute values, never parsed as markup.
+ * Use unsafeHTML() to render trusted markup.
  */
 export const html = (
 	strings: TemplateStringsArray,
@@ -123,6 +126,9 @@ const replaceAttributePlaceholders = (
 				for (const [prop, val] of Object.entries(attr.replacement)) {
 					(element as HTMLElement).style[prop as any] = val as string;
 				}
+			} else if (attr.name.startsWith('on')) {
+				// Only functions handle events, a string would run as code
+				element.removeAttribute(attr.name);
 			} else {
 				let updatedValue = attr.value;
 				const placeholderRegex = /__PLACEHOLDER_(\d+)__/g;
@@ -177,7 +183,8 @@ const replaceTextNodePlaceholders = (node: Text, values: any[]): void => {
 		(m) =>
 			m.value instanceof Component ||
 			m.value instanceof HTMLElement ||
-			m.value instanceof DocumentFragment
+			m.value instanceof DocumentFragment ||
+			m.value instanceof UnsafeHTML
 	);
 
 	if (hasComplexReplacements) {
@@ -202,6 +209,11 @@ const replaceTextNodePlaceholders = (node: Text, values: any[]): void => {
 				value instanceof DocumentFragment
 			) {
 				fragment.appendChild(value);
+			} else if (value instanceof UnsafeHTML) {
+				// Trusted markup is the only value parsed as HTML
+				const template = document.createElement('template');
+				template.innerHTML = value.markup;
+				fragment.appendChild(template.content);
 			} else {
 				fragment.appendChild(document.createTextNode(String(value ?? '')));
 			}
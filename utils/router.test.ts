@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { Router } from './router';
+
+describe('Router', () => {
+	it('renders its hidden loading indicator into the body', () => {
+		const container = document.createElement('main');
+		document.body.appendChild(container);
+
+		new Router(container);
+
+		const indicator = document.body.querySelector<HTMLElement>(
+			':scope > .loading-indicator'
+		);
+		expect(indicator?.style.display).toBe('none');
+		expect(indicator?.querySelector('.loading-progress-bar')).not.toBeNull();
+		expect(container.childNodes).toHaveLength(0);
+	});
+});
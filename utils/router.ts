@@ -3,7 +3,11 @@
  */
 
 import { Component } from './component';
-import { clearComponentCache } from './jsx-vdom';
+import { ErrorBoundary } from './error-boundary';
+import { delegateEvents } from './events';
+import { hydrateIslands } from './islands';
+import { clearComponentCache, html } from './jsx-vdom';
+import { destroyComponent, hydrate, mount, portal } from './vdom';
 
 // Component factory type that returns a Component instance
 type ComponentFactory = () => Component;
@@ -11,16 +15,107 @@ type ComponentFactory = () => Component;
 // Add support for async component loading
 type AsyncComponentFactory = () => Promise<{ default: new () => Component }>;
 
-type Route = {
+export type RouteOptions = {
+	// Title of the page, shown before the app's title
+	title?: string;
+	// Description of the page for search engines and link previews
+	description?: string;
+	// The page is static apart from its islands: prerendered markup of it
+	// only has its islands hydrated, the page itself isn't even loaded
+	islands?: boolean;
+};
+
+export type Route = RouteOptions & {
 	path: string;
 	component: ComponentFactory | AsyncComponentFactory;
 	lazy?: boolean;
 	currentInstance?: Component;
 };
 
-export class Router {
-	private routes: Route[] = [];
-	private defaultRoute: Route | null = null;
+// Title of the app, the title of each page ends with it
+export const APP_TITLE = 'Vanilla TS SPA';
+
+/**
+ * Table of the app's routes
+ * Holds the routes without rendering them, so they can also be walked
+ * without a DOM, e.g. to prerender every page at build time
+ */
+export class RouteTable {
+	protected routes: Route[] = [];
+	protected defaultRoute: Route | null = null;
+
+	add(
+		path: string,
+		component: ComponentFactory,
+		options: RouteOptions = {}
+	): this {
+		this.routes.push({ ...options, path, component, lazy: false });
+		return this;
+	}
+
+	// Add support for lazy-loaded components
+	addLazy(
+		path: string,
+		componentLoader: AsyncComponentFactory,
+		options: RouteOptions = {}
+	): this {
+		this.routes.push({
+			...options,
+			path,
+			component: componentLoader,
+			lazy: true,
+		});
+		return this;
+	}
+
+	setDefault(component: ComponentFactory, options: RouteOptions = {}): this {
+		this.defaultRoute = { ...options, path: '**', component, lazy: false };
+		return this;
+	}
+
+	/**
+	 * Get the routes, without the default route
+	 */
+	getRoutes(): Route[] {
+		return this.routes;
+	}
+
+	getDefaultRoute(): Route | null {
+		return this.defaultRoute;
+	}
+
+	/**
+	 * Find the route of a path, or the default route if none matches
+	 */
+	match(path: string): Route | null {
+		return (
+			this.routes.find((route) => path === route.path) || this.defaultRoute
+		);
+	}
+
+	/**
+	 * Get the document title of a route
+	 */
+	getTitle(route: Route): string {
+		return route.title ? `${route.title} | ${APP_TITLE}` : APP_TITLE;
+	}
+
+	/**
+	 * Create the page of a route, loading it first if it's lazy
+	 * Each page is wrapped in an error boundary, so an error in the page
+	 * shows a fallback instead of leaving it half-updated
+	 */
+	async loadPage(route: Route): Promise<Component> {
+		if (route.lazy) {
+			const module = await (route.component as AsyncComponentFactory)();
+			return new ErrorBoundary({ render: () => new module.default() });
+		}
+
+		return new ErrorBoundary({ render: route.component as ComponentFactory });
+	}
+}
+
+export class Router extends RouteTable {
 	private currentRoute: Route | null = null;
 	private transitionDuration = 300; // match the CSS transition duration in ms
 	private loadingIndicator: HTMLElement | null = null;
@@ -28,8 +123,21 @@ export class Router {
 	private progressBar: HTMLElement | null = null;
 	private loadingSimulation: number | null = null;
 	private debugSlowLoading = false; // Set to true to simulate slow network for testing
+	private hasRendered = false; // Whether a page has been rendered or hydrated
+	private islands: Component[] = []; // Islands hydrated in a static page
+	private defaultDescription: string | null = null; // From the page shell
 
 	constructor(private container: HTMLElement) {
+		super();
+
+		this.defaultDescription =
+			document
+				.querySelector('meta[name="description"]')
+				?.getAttribute('content') ?? null;
+
+		// Page events are delegated to the router's container
+		delegateEvents(container);
+
 		window.addEventListener('popstate', () =>
 			this.navigate(window.location.pathname)
 		);
@@ -42,31 +150,30 @@ export class Router {
 	}
 
 	private createLoadingIndicator(): void {
-		this.loadingIndicator = document.createElement('div');
-		this.loadingIndicator.className = 'loading-indicator';
-		this.loadingIndicator.style.display = 'none';
-
-		const spinner = document.createElement('div');
-		spinner.className = 'loading-spinner';
-
-		const text = document.createElement('div');
-		text.className = 'loading-text';
-		text.textContent = 'Loading...';
-
-		// Create progress bar container
-		const progressContainer = document.createElement('div');
-		progressContainer.className = 'loading-progress-container';
-
-		// Create progress bar
-		this.progressBar = document.createElement('div');
-		this.progressBar.className = 'loading-progress-bar';
-		progressContainer.appendChild(this.progressBar);
-
-		this.loadingIndicator.appendChild(spinner);
-		this.loadingIndicator.appendChild(text);
-		this.loadingIndicator.appendChild(progressContainer);
-
-		document.body.appendChild(this.loadingIndicator);
+		// Shown over the page, so it's rendered into the body. The portal
+		// itself is kept out of the container, pages replace its content.
+		mount(
+			portal(
+				html`
+					<div
+						class="loading-indicator"
+						style="display: none"
+						ref=${(el: HTMLElement | null) => (this.loadingIndicator = el)}
+					>
+						<div class="loading-spinner"></div>
+						<div class="loading-text">Loading...</div>
+						<div class="loading-progress-container">
+							<div
+								class="loading-progress-bar"
+								ref=${(el: HTMLElement | null) => (this.progressBar = el)}
+							></div>
+						</div>
+					</div>
+				`,
+				document.body
+			),
+			document.createElement('div')
+		);
 	}
 
 	private showLoading(): void {
@@ -152,26 +259,6 @@ export class Router {
 		}, 100);
 	}
 
-	add(path: string, component: ComponentFactory): Router {
-		this.routes.push({ path, component, lazy: false });
-		return this;
-	}
-
-	// Add support for lazy-loaded components
-	addLazy(path: string, componentLoader: AsyncComponentFactory): Router {
-		this.routes.push({
-			path,
-			component: componentLoader,
-			lazy: true,
-		});
-		return this;
-	}
-
-	setDefault(component: ComponentFactory): Router {
-		this.defaultRoute = { path: '**', component, lazy: false };
-		return this;
-	}
-
 	navigate(path: string): void {
 		// Clear component cache before navigation
 		if (window.location.pathname !== path) {
@@ -210,19 +297,23 @@ export class Router {
 	}
 
 	private cleanup(): void {
-		// Cleanup the current component if it exists
+		// Cleanup the current component and the components nested in it
 		if (this.currentRoute?.currentInstance) {
-			this.currentRoute.currentInstance.destroy();
+			destroyComponent(this.currentRoute.currentInstance);
 			this.currentRoute.currentInstance = undefined;
 		}
+
+		for (const island of this.islands) {
+			destroyComponent(island);
+		}
+		this.islands = [];
 	}
 
 	private async render(): Promise<void> {
 		const path = window.location.pathname;
 
 		// Find the matching route
-		const route =
-			this.routes.find((route) => path === route.path) || this.defaultRoute;
+		const route = this.match(path);
 
 		if (!route) {
 			console.error('No matching route found and no default route set');
@@ -253,6 +344,19 @@ export class Router {
 
 		// Set current route
 		this.currentRoute = route;
+		this.applyRouteMeta(route);
+
+		// A prerendered static page only has its islands hydrated
+		if (
+			!this.hasRendered &&
+			route.islands &&
+			this.container.firstElementChild
+		) {
+			this.hasRendered = true;
+			this.islands = hydrateIslands(this.container);
+			this.updateActiveLinks(path);
+			return;
+		}
 
 		// Create the component instance (handle both lazy and normal loading)
 		let componentInstance: Component;
@@ -262,21 +366,18 @@ export class Router {
 				// Show loading indicator for lazy-loaded components
 				this.showLoading();
 
-				// For lazy-loaded components, await the import and instantiate
-				const module = await (route.component as AsyncComponentFactory)();
-
 				// Simulate slow loading in debug mode
 				if (this.debugSlowLoading) {
 					await new Promise((resolve) => setTimeout(resolve, 2000));
 				}
 
-				componentInstance = new module.default();
+				// For lazy-loaded components, await the import and instantiate
+				componentInstance = await this.loadPage(route);
 
 				// Hide loading indicator once component is loaded
 				this.hideLoading();
 			} else {
-				// For eager-loaded components, just call the factory
-				componentInstance = (route.component as ComponentFactory)();
+				componentInstance = await this.loadPage(route);
 			}
 		} catch (error) {
 			console.error('Error loading component:', error);
@@ -287,6 +388,18 @@ export class Router {
 		// Store reference to the component instance
 		route.currentInstance = componentInstance;
 
+		// A prerendered first page is hydrated instead of rendered again
+		if (!this.hasRendered && this.container.firstElementChild) {
+			this.hasRendered = true;
+			hydrate(
+				{ type: 'component', component: componentInstance, props: {} },
+				this.container
+			);
+			this.updateActiveLinks(path);
+			return;
+		}
+		this.hasRendered = true;
+
 		// Get the HTML element from the component
 		const element = componentInstance.getElement();
 
@@ -316,6 +429,19 @@ export class Router {
 		}, this.transitionDuration);
 	}
 
+	/**
+	 * Show the title and description of a route in the document
+	 */
+	private applyRouteMeta(route: Route): void {
+		document.title = this.getTitle(route);
+
+		const description = route.description ?? this.defaultDescription;
+		const meta = document.querySelector('meta[name="description"]');
+		if (meta && description !== null) {
+			meta.setAttribute('content', description);
+		}
+	}
+
 	private updateActiveLinks(currentPath: string): void {
 		const links = document.querySelectorAll('[data-link]');
 		for (const link of links) {
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderSchema, validateSchema } from './schema-ui';
+import { Store } from './store';
+import { VNodeElement } from './vdom';
+
+const screen = (root: unknown) => ({ version: 1, root });
+
+// Nests a div in a div, depth times
+const nest = (depth: number): unknown =>
+	depth === 0
+		? { type: 'text', text: 'deep' }
+		: { type: 'element', tag: 'div', children: [nest(depth - 1)] };
+
+describe('renderSchema', () => {
+	it.each([
+		['an unknown tag', { type: 'element', tag: 'script' }, 'root.tag'],
+		[
+			'an unknown component',
+			{ type: 'component', name: 'Missing' },
+			'root.name',
+		],
+		[
+			'a disallowed attribute',
+			{ type: 'element', tag: 'div', attrs: { style: 'color: red' } },
+			'root.attrs.style',
+		],
+		[
+			'an event attribute',
+			{ type: 'element', tag: 'button', attrs: { onclick: 'alert(1)' } },
+			'root.attrs.onclick',
+		],
+		[
+			'a javascript: URL',
+			{ type: 'element', tag: 'a', attrs: { href: ' java\tscript:alert(1)' } },
+			'root.attrs.href',
+		],
+		[
+			'a store path into a prototype',
+			{ type: 'text', text: { bind: 'user.__proto__.polluted' } },
+			'root.text.bind',
+		],
+		[
+			'a store path that is not a path',
+			{ type: 'text', text: { bind: 'user["name"]' } },
+			'root.text.bind',
+		],
+		['an over-deep tree', nest(70), 'root' + '.children[0]'.repeat(65)],
+	])('rejects %s and renders nothing', (_name, root, path) => {
+		expect(validateSchema(screen(root))).toContainEqual(
+			expect.objectContaining({ path })
+		);
+		expect(() => renderSchema(screen(root))).toThrow(
+			`Invalid screen:\n${path}`
+		);
+	});
+
+	it('rejects an event bound to an unknown action', () => {
+		const root = {
+			type: 'element',
+			tag: 'button',
+			on: { click: { action: 'deleteAll' } },
+		};
+
+		expect(() =>
+			renderSchema(screen(root), { actions: { notify: () => {} } })
+		).toThrow('unknown action "deleteAll"');
+	});
+
+	it('leaves out a bound javascript: URL', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const store = new Store({ link: 'javascript:alert(1)' });
+		const root = {
+			type: 'element',
+			tag: 'a',
+			attrs: { href: { bind: 'link' }, title: 'Link' },
+		};
+
+		const vnode = renderSchema(screen(root), { store }) as VNodeElement;
+
+		expect(vnode.props).toEqual({ title: 'Link' });
+		expect(warn).toHaveBeenCalledOnce();
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,677 @@
+/**
+ * Server-driven UI: screens shipped as JSON
+ * A screen is a tree of elements, text and registered components. Values
+ * can be bound to paths in a store and events to named actions, so the JSON
+ * never carries code. Screens are validated before they are rendered, and
+ * anything unknown (tags, attributes, components, props) rejects the screen.
+ */
+
+import { Component } from './component';
+import { TComponentConstructor } from './component-types';
+import { useComponent } from './jsx-vdom';
+import { Store, appStore } from './store';
+import { VNode, createElement } from './vdom';
+
+// Version of the screen format this renderer understands
+export const SCHEMA_VERSION = 1;
+
+// Literal value of an attribute, prop or text
+export type TSchemaLiteral = string | number | boolean | null;
+
+// Value read from the store, e.g. { "bind": "user.username" }
+export type TSchemaBinding = { bind: string };
+
+export type TSchemaValue = TSchemaLiteral | TSchemaBinding;
+
+// Named action called by an event, with its arguments
+export type TSchemaAction = { action: string; args?: TSchemaValue[] };
+
+export type TSchemaElement = {
+	type: 'element';
+	tag: string;
+	key?: string | number;
+	attrs?: Record<string, TSchemaValue>;
+	// Event type (click, input...) to the action it calls
+	on?: Record<string, TSchemaAction>;
+	children?: TSchemaNode[];
+};
+
+export type TSchemaText = {
+	type: 'text';
+	text: TSchemaValue;
+};
+
+export type TSchemaComponent = {
+	type: 'component';
+	name: string;
+	key?: string | number;
+	props?: Record<string, TSchemaValue>;
+};
+
+export type TSchemaNode = TSchemaElement | TSchemaText | TSchemaComponent;
+
+// A screen, the document the backend sends
+export type TSchemaScreen = {
+	version: number;
+	root: TSchemaNode;
+};
+
+// Handler of a named action, called with the event and resolved arguments
+export type TSchemaActionHandler = (event: Event, ...args: any[]) => void;
+
+export type TSchemaError = {
+	path: string; // Where in the screen, e.g. root.children[1].attrs.href
+	message: string;
+};
+
+// Primitive types a component prop accepts
+export type TSchemaPropType = 'string' | 'number' | 'boolean';
+
+type SchemaComponentDefinition = {
+	component: TComponentConstructor<any>;
+	props: Record<string, TSchemaPropType>;
+};
+
+/**
+ * JSON Schema of a screen, for backends to validate what they send
+ * validateSchema() checks the same rules, plus the registered components
+ * and the actions a screen is rendered with
+ */
+export const SCREEN_JSON_SCHEMA = {
+	$schema: 'https://json-schema.org/draft/2020-12/schema',
+	title: 'Screen',
+	type: 'object',
+	required: ['version', 'root'],
+	additionalProperties: false,
+	properties: {
+		version: { const: SCHEMA_VERSION },
+		root: { $ref: '#/$defs/node' },
+	},
+	$defs: {
+		literal: { type: ['string', 'number', 'boolean', 'null'] },
+		binding: {
+			type: 'object',
+			required: ['bind'],
+			additionalProperties: false,
+			properties: {
+				bind: {
+					type: 'string',
+					pattern: '^[A-Za-z_$][\\w$]*(\\.[A-Za-z_$][\\w$]*)*$',
+				},
+			},
+		},
+		value: {
+			oneOf: [{ $ref: '#/$defs/literal' }, { $ref: '#/$defs/binding' }],
+		},
+		key: { type: ['string', 'number'] },
+		action: {
+			type: 'object',
+			required: ['action'],
+			additionalProperties: false,
+			properties: {
+				action: { type: 'string' },
+				args: { type: 'array', items: { $ref: '#/$defs/value' } },
+			},
+		},
+		node: {
+			oneOf: [
+				{ $ref: '#/$defs/element' },
+				{ $ref: '#/$defs/text' },
+				{ $ref: '#/$defs/component' },
+			],
+		},
+		element: {
+			type: 'object',
+			required: ['type', 'tag'],
+			additionalProperties: false,
+			properties: {
+				type: { const: 'element' },
+				tag: { type: 'string' },
+				key: { $ref: '#/$defs/key' },
+				attrs: {
+					type: 'object',
+					additionalProperties: { $ref: '#/$defs/value' },
+				},
+				on: {
+					type: 'object',
+					propertyNames: { pattern: '^[a-z]+$' },
+					additionalProperties: { $ref: '#/$defs/action' },
+				},
+				children: { type: 'array', items: { $ref: '#/$defs/node' } },
+			},
+		},
+		text: {
+			type: 'object',
+			required: ['type', 'text'],
+			additionalProperties: false,
+			properties: {
+				type: { const: 'text' },
+				text: { $ref: '#/$defs/value' },
+			},
+		},
+		component: {
+			type: 'object',
+			required: ['type', 'name'],
+			additionalProperties: false,
+			properties: {
+				type: { const: 'component' },
+				name: { type: 'string' },
+				key: { $ref: '#/$defs/key' },
+				props: {
+					type: 'object',
+					additionalProperties: { $ref: '#/$defs/value' },
+				},
+			},
+		},
+	},
+} as const;
+
+// Tags a screen may use. Anything that runs code or loads other documents
+// (script, iframe, object, embed, link, meta, base, style) is left out.
+const ALLOWED_TAGS = new Set([
+	'div',
+	'span',
+	'p',
+	'section',
+	'article',
+	'header',
+	'footer',
+	'main',
+	'nav',
+	'aside',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'ul',
+	'ol',
+	'li',
+	'dl',
+	'dt',
+	'dd',
+	'strong',
+	'em',
+	'b',
+	'i',
+	'small',
+	'code',
+	'pre',
+	'blockquote',
+	'br',
+	'hr',
+	'a',
+	'img',
+	'figure',
+	'figcaption',
+	'table',
+	'thead',
+	'tbody',
+	'tr',
+	'th',
+	'td',
+	'form',
+	'label',
+	'input',
+	'textarea',
+	'select',
+	'option',
+	'button',
+	'progress',
+]);
+
+// Attributes a screen may use, besides aria-* and data-*
+const ALLOWED_ATTRIBUTES = new Set([
+	'id',
+	'class',
+	'title',
+	'role',
+	'tabindex',
+	'hidden',
+	'lang',
+	'dir',
+	'href',
+	'target',
+	'rel',
+	'src',
+	'alt',
+	'width',
+	'height',
+	'type',
+	'name',
+	'value',
+	'placeholder',
+	'checked',
+	'selected',
+	'disabled',
+	'readonly',
+	'required',
+	'min',
+	'max',
+	'step',
+	'for',
+	'colspan',
+	'rowspan',
+]);
+
+// Attributes holding URLs, which must not run code (javascript: URLs)
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+// Store path segments that would reach into prototypes
+const FORBIDDEN_PATH_SEGMENTS = new Set([
+	'__proto__',
+	'prototype',
+	'constructor',
+]);
+
+const STORE_PATH_PATTERN = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+
+// Screens deeper than this are rejected rather than risk the call stack
+const MAX_DEPTH = 64;
+
+// Components screens may use, by name
+const schemaComponents = new Map<string, SchemaComponentDefinition>();
+
+/**
+ * Allow screens to render a component, with the props they may pass it
+ * e.g. registerSchemaComponent('Counter', Counter, { initial: 'number' })
+ */
+export const registerSchemaComponent = <P extends Record<string, any>>(
+	name: string,
+	component: TComponentConstructor<P>,
+	props: Record<string, TSchemaPropType> = {}
+): void => {
+	if (schemaComponents.has(name)) {
+		console.warn(
+			`Schema component "${name}" is registered twice, the last one is used`
+		);
+	}
+	schemaComponents.set(name, { component, props });
+};
+
+/**
+ * Check if a URL can't run code: http(s), mailto and relative URLs only
+ */
+const isSafeURL = (url: string): boolean => {
+	// Browsers ignore control characters and whitespace in the scheme
+	const normalized = url.replace(/[\u0000- ]/g, '');
+	const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized);
+	return !scheme || /^(https?|mailto)$/i.test(scheme[1]);
+};
+
+const isAllowedAttribute = (name: string): boolean => {
+	return (
+		ALLOWED_ATTRIBUTES.has(name) ||
+		/^aria-[a-z]+$/.test(name) ||
+		/^data-[a-z0-9-]+$/.test(name)
+	);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value) &&
+		Object.getPrototypeOf(value) === Object.prototype
+	);
+};
+
+const isLiteral = (value: unknown): value is TSchemaLiteral => {
+	return (
+		value === null ||
+		typeof value === 'string' ||
+		typeof value === 'boolean' ||
+		(typeof value === 'number' && Number.isFinite(value))
+	);
+};
+
+const isStorePath = (path: unknown): path is string => {
+	return (
+		typeof path === 'string' &&
+		STORE_PATH_PATTERN.test(path) &&
+		!path.split('.').some((segment) => FORBIDDEN_PATH_SEGMENTS.has(segment))
+	);
+};
+
+/**
+ * Validate a screen before rendering it
+ * Returns the errors found, none if the screen can be rendered
+ * Actions are checked against the given names, if any
+ */
+export const validateSchema = (
+	screen: unknown,
+	actions?: string[]
+): TSchemaError[] => {
+	const errors: TSchemaError[] = [];
+	const error = (path: string, message: string) => {
+		errors.push({ path, message });
+	};
+
+	// Report properties besides the allowed ones
+	const checkKeys = (
+		value: Record<string, unknown>,
+		allowed: string[],
+		path: string
+	): void => {
+		for (const key of Object.keys(value)) {
+			if (!allowed.includes(key)) {
+				error(`${path}.${key}`, 'unknown property');
+			}
+		}
+	};
+
+	const checkValue = (value: unknown, path: string): void => {
+		if (isLiteral(value)) {
+			return;
+		}
+		if (isPlainObject(value) && 'bind' in value) {
+			checkKeys(value, ['bind'], path);
+			if (!isStorePath(value.bind)) {
+				error(`${path}.bind`, 'must be a store path like "user.username"');
+			}
+			return;
+		}
+		error(path, 'must be a string, number, boolean, null or a binding');
+	};
+
+	const checkKey = (value: Record<string, unknown>, path: string): void => {
+		if (
+			'key' in value &&
+			typeof value.key !== 'string' &&
+			typeof value.key !== 'number'
+		) {
+			error(`${path}.key`, 'must be a string or a number');
+		}
+	};
+
+	const checkAction = (value: unknown, path: string): void => {
+		if (!isPlainObject(value) || typeof value.action !== 'string') {
+			error(path, 'must be an object with an action name');
+			return;
+		}
+		checkKeys(value, ['action', 'args'], path);
+		if (actions && !actions.includes(value.action)) {
+			error(`${path}.action`, `unknown action "${value.action}"`);
+		}
+		if ('args' in value) {
+			if (Array.isArray(value.args)) {
+				value.args.forEach((arg, i) => checkValue(arg, `${path}.args[${i}]`));
+			} else {
+				error(`${path}.args`, 'must be an array');
+			}
+		}
+	};
+
+	const checkElement = (
+		node: Record<string, unknown>,
+		path: string,
+		depth: number
+	): void => {
+		checkKeys(node, ['type', 'tag', 'key', 'attrs', 'on', 'children'], path);
+		checkKey(node, path);
+
+		if (typeof node.tag !== 'string' || !ALLOWED_TAGS.has(node.tag)) {
+			error(`${path}.tag`, `tag "${String(node.tag)}" is not allowed`);
+		}
+
+		if ('attrs' in node) {
+			if (isPlainObject(node.attrs)) {
+				for (const [name, value] of Object.entries(node.attrs)) {
+					const attrPath = `${path}.attrs.${name}`;
+					if (!isAllowedAttribute(name)) {
+						error(attrPath, `attribute "${name}" is not allowed`);
+						continue;
+					}
+					checkValue(value, attrPath);
+					if (
+						URL_ATTRIBUTES.has(name) &&
+						typeof value === 'string' &&
+						!isSafeURL(value)
+					) {
+						error(attrPath, 'only http(s), mailto and relative URLs');
+					}
+				}
+			} else {
+				error(`${path}.attrs`, 'must be an object');
+			}
+		}
+
+		if ('on' in node) {
+			if (isPlainObject(node.on)) {
+				for (const [type, action] of Object.entries(node.on)) {
+					if (!/^[a-z]+$/.test(type)) {
+						error(`${path}.on.${type}`, 'must be an event type like "click"');
+						continue;
+					}
+					checkAction(action, `${path}.on.${type}`);
+				}
+			} else {
+				error(`${path}.on`, 'must be an object');
+			}
+		}
+
+		if ('children' in node) {
+			if (Array.isArray(node.children)) {
+				node.children.forEach((child, i) =>
+					checkNode(child, `${path}.children[${i}]`, depth + 1)
+				);
+			} else {
+				error(`${path}.children`, 'must be an array');
+			}
+		}
+	};
+
+	const checkComponent = (node: Record<string, unknown>, path: string) => {
+		checkKeys(node, ['type', 'name', 'key', 'props'], path);
+		checkKey(node, path);
+
+		const definition =
+			typeof node.name === 'string' ? schemaComponents.get(node.name) : null;
+		if (!definition) {
+			error(`${path}.name`, `unknown component "${String(node.name)}"`);
+			return;
+		}
+
+		if ('props' in node) {
+			if (!isPlainObject(node.props)) {
+				error(`${path}.props`, 'must be an object');
+				return;
+			}
+			for (const [name, value] of Object.entries(node.props)) {
+				const propPath = `${path}.props.${name}`;
+				const type = Object.prototype.hasOwnProperty.call(
+					definition.props,
+					name
+				)
+					? definition.props[name]
+					: null;
+				if (!type) {
+					error(propPath, `${node.name} has no prop "${name}"`);
+					continue;
+				}
+				checkValue(value, propPath);
+				if (isLiteral(value) && value !== null && typeof value !== type) {
+					error(propPath, `must be a ${type}`);
+				}
+			}
+		}
+	};
+
+	const checkNode = (node: unknown, path: string, depth: number): void => {
+		if (depth > MAX_DEPTH) {
+			error(path, `nested deeper than ${MAX_DEPTH} levels`);
+			return;
+		}
+		if (!isPlainObject(node)) {
+			error(path, 'must be an object');
+			return;
+		}
+
+		if (node.type === 'element') {
+			checkElement(node, path, depth);
+		} else if (node.type === 'text') {
+			checkKeys(node, ['type', 'text'], path);
+			checkValue(node.text, `${path}.text`);
+		} else if (node.type === 'component') {
+			checkComponent(node, path);
+		} else {
+			error(`${path}.type`, 'must be "element", "text" or "component"');
+		}
+	};
+
+	if (!isPlainObject(screen)) {
+		error('screen', 'must be an object');
+		return errors;
+	}
+	checkKeys(screen, ['version', 'root'], 'screen');
+	if (screen.version !== SCHEMA_VERSION) {
+		error('screen.version', `must be ${SCHEMA_VERSION}`);
+	}
+	checkNode(screen.root, 'root', 0);
+
+	return errors;
+};
+
+export type TSchemaContext = {
+	// Handlers of the actions events are bound to
+	actions?: Record<string, TSchemaActionHandler>;
+	// Store bindings are read from, the app store by default
+	store?: Store<any>;
+	// Prefix of the keys of the screen's components, so the components of
+	// different screens are not mixed up
+	scope?: string;
+};
+
+/**
+ * Render a screen to VNodes
+ * The screen is validated first, an invalid screen throws an Error listing
+ * what's wrong instead of rendering any of it
+ */
+export const renderSchema = (
+	screen: unknown,
+	{ actions = {}, store = appStore, scope = 'schema' }: TSchemaContext = {}
+): VNode => {
+	const errors = validateSchema(screen, Object.keys(actions));
+	if (errors.length > 0) {
+		throw new Error(
+			`Invalid screen:\n${errors
+				.map(({ path, message }) => `${path}: ${message}`)
+				.join('\n')}`
+		);
+	}
+
+	// Bindings are read when rendering, action arguments when the event fires
+	const resolve = (value: TSchemaValue): any => {
+		if (isLiteral(value)) {
+			return value;
+		}
+
+		let current: any = store.getState();
+		for (const segment of value.bind.split('.')) {
+			current =
+				current !== null &&
+				typeof current === 'object' &&
+				Object.prototype.hasOwnProperty.call(current, segment)
+					? current[segment]
+					: undefined;
+		}
+		return current;
+	};
+
+	const renderNode = (node: TSchemaNode, path: string): VNode => {
+		if (node.type === 'text') {
+			const text = resolve(node.text);
+			return {
+				type: 'text',
+				text: text === null || text === undefined ? '' : String(text),
+			};
+		}
+
+		if (node.type === 'component') {
+			const { component } = schemaComponents.get(node.name)!;
+			const props: Record<string, any> = {};
+			for (const [name, value] of Object.entries(node.props || {})) {
+				props[name] = resolve(value);
+			}
+			return useComponent(
+				component,
+				props,
+				`${scope}:${node.key !== undefined ? node.key : path}`
+			);
+		}
+
+		const props: Record<string, any> = {};
+		if (node.key !== undefined) {
+			props.key = node.key;
+		}
+
+		for (const [name, value] of Object.entries(node.attrs || {})) {
+			const resolved = resolve(value);
+			// Bound URLs are only known now
+			if (
+				URL_ATTRIBUTES.has(name) &&
+				typeof resolved === 'string' &&
+				!isSafeURL(resolved)
+			) {
+				console.warn(`Unsafe URL in ${path}.attrs.${name} is not rendered`);
+				continue;
+			}
+			props[name] = resolved;
+		}
+
+		for (const [type, { action, args = [] }] of Object.entries(node.on || {})) {
+			props[`on${type}`] = (event: Event) =>
+				actions[action](event, ...args.map(resolve));
+		}
+
+		return createElement(
+			node.tag,
+			props,
+			...(node.children || []).map((child, i) =>
+				renderNode(child, `${path}.children[${i}]`)
+			)
+		);
+	};
+
+	return renderNode((screen as TSchemaScreen).root, 'root');
+};
+
+type TSchemaViewProps = TSchemaContext & {
+	screen: unknown;
+};
+
+// Gives each SchemaView its own component keys
+let schemaViewCounter = 0;
+
+/**
+ * Component rendering a screen, again whenever its store changes
+ * An invalid screen goes to the nearest error boundary
+ */
+export class SchemaView extends Component {
+	private scope = `schema-view-${schemaViewCounter++}`;
+	private unsubscribe: (() => void) | null;
+
+	constructor(props: TSchemaViewProps = {} as TSchemaViewProps) {
+		super(props, 'schema-view');
+
+		const { store = appStore } = props;
+		this.unsubscribe = store.subscribe(() => this.update());
+	}
+
+	protected render(): VNode {
+		const { screen, ...context } = this.props as TSchemaViewProps;
+		return renderSchema(screen, { ...context, scope: this.scope });
+	}
+
+	/**
+	 * Stop following the store when the component is destroyed
+	 */
+	public override destroy(): void {
+		if (this.unsubscribe) {
+			this.unsubscribe();
+			this.unsubscribe = null;
+		}
+		super.destroy();
+	}
+}
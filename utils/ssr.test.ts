@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { Component } from './component';
+import { html, useComponent } from './jsx-vdom';
+import { renderToString } from './ssr';
+import { VNode, createElement, createFragment, portal } from './vdom';
+
+class Badge extends Component {
+	constructor(props: { label: string } = { label: '' }) {
+		super(props, 'badge');
+	}
+
+	protected render(): VNode {
+		return html`<b>${this.props.label}</b>`;
+	}
+}
+
+class Card extends Component {
+	protected render(): VNode {
+		return html`<div>${useComponent(Badge, { label: '<new>' })}</div>`;
+	}
+}
+
+describe('renderToString', () => {
+	it('renders without a DOM', () => {
+		expect(typeof document).toBe('undefined');
+		expect(renderToString(new Card())).toBe(
+			'<div><div><div class="badge"><b>&lt;new&gt;</b></div></div></div>'
+		);
+	});
+
+	it('escapes text and attributes', () => {
+		const vnode = createElement(
+			'a',
+			{ href: '/?a=1&b="2"', title: "it's <fine>" },
+			'1 < 2 & 3 > 2'
+		);
+
+		expect(renderToString(vnode)).toBe(
+			'<a href="/?a=1&amp;b=&quot;2&quot;" title="it\'s <fine>">1 &lt; 2 &amp; 3 &gt; 2</a>'
+		);
+	});
+
+	it('serializes styles, class names and boolean attributes', () => {
+		const vnode = createElement('input', {
+			className: 'field',
+			style: { fontSize: '12px', '--accent': 'red', color: null },
+			disabled: true,
+			checked: 'false',
+			readonly: false,
+		});
+
+		expect(renderToString(vnode)).toBe(
+			'<input class="field" style="font-size: 12px; --accent: red" disabled>'
+		);
+	});
+
+	it('marks fragments and leaves portals to the browser', () => {
+		const vnode = createElement(
+			'main',
+			{},
+			createFragment(['a', createElement('br', {})]),
+			portal(createElement('p', {}, 'dialog'), 'body')
+		);
+
+		expect(renderToString(vnode)).toBe(
+			'<main><!--[-->a<br><!--]--><!--portal--></main>'
+		);
+	});
+});
@@ -0,0 +1,249 @@
+/**
+ * Rendering to HTML strings
+ * Serializes VNode trees and components without a DOM, so pages can be
+ * prerendered on the server for a fast first paint and for crawlers
+ */
+
+import { Component, HYDRATION_STATE_ATTRIBUTE } from './component';
+import { VOID_ELEMENTS } from './html-parser';
+import { VNode, canUseDOM, destroyComponent } from './vdom';
+
+// Whether a renderToString() call is in progress
+let renderingToString = false;
+
+// Elements whose text content is written as is
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+// Props set as live DOM properties in the browser, where the string
+// "false" (from an inlined template value) also means false
+const BOOLEAN_PROPERTIES = new Set(['checked', 'selected', 'muted']);
+
+/**
+ * Check if a renderToString() call is in progress
+ * Effects are skipped then, they only run in the browser
+ */
+export const isRenderingToString = (): boolean => renderingToString;
+
+/**
+ * Escape text content
+ */
+export const escapeText = (text: string): string => {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+};
+
+/**
+ * Escape a double-quoted attribute value
+ */
+export const escapeAttribute = (value: string): string => {
+	return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+};
+
+/**
+ * Serialize a style object such as { fontSize: '12px' } to CSS text
+ */
+const serializeStyle = (style: Record<string, any>): string => {
+	return Object.entries(style)
+		.filter(
+			([, value]) => value !== null && value !== undefined && value !== ''
+		)
+		.map(([property, value]) => {
+			// Custom properties keep their name, others go from camelCase to kebab-case
+			const name = property.startsWith('--')
+				? property
+				: property.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+			return `${name}: ${value}`;
+		})
+		.join('; ');
+};
+
+/**
+ * Serialize the props of an element to attributes
+ * Event handlers, refs and keys only exist in the browser and are skipped
+ */
+const serializeProps = (
+	tagName: string,
+	props: Record<string, any>
+): string => {
+	let attributes = '';
+
+	for (const [key, value] of Object.entries(props)) {
+		if (
+			key === 'key' ||
+			key === 'ref' ||
+			key.startsWith('on') ||
+			typeof value === 'function' ||
+			value === null ||
+			value === undefined
+		) {
+			continue;
+		}
+
+		// The value of a textarea is its content, the value of a select
+		// is set on its options
+		if (key === 'value' && (tagName === 'textarea' || tagName === 'select')) {
+			continue;
+		}
+
+		const name = key === 'className' ? 'class' : key;
+
+		if (name === 'style' && typeof value === 'object') {
+			const css = serializeStyle(value);
+			if (css) {
+				attributes += ` style="${escapeAttribute(css)}"`;
+			}
+			continue;
+		}
+
+		// Boolean attributes are present or absent
+		if (
+			value === false ||
+			(BOOLEAN_PROPERTIES.has(name) && value === 'false')
+		) {
+			continue;
+		}
+		if (value === true) {
+			attributes += ` ${name}`;
+			continue;
+		}
+
+		attributes += ` ${name}="${escapeAttribute(String(value))}"`;
+	}
+
+	return attributes;
+};
+
+/**
+ * Get the text content of VNodes, used for the value of options
+ */
+const getTextContent = (vnodes: VNode[]): string => {
+	return vnodes
+		.map((vnode) =>
+			vnode.type === 'text'
+				? vnode.text
+				: vnode.type === 'element' || vnode.type === 'fragment'
+					? getTextContent(vnode.children)
+					: ''
+		)
+		.join('');
+};
+
+/**
+ * Serialize a VNode to HTML
+ * Components that were rendered are collected, to destroy them afterwards
+ */
+const serializeVNode = (
+	vnode: VNode,
+	rendered: Component[],
+	parentTag: string = '',
+	selectValue: string | null = null
+): string => {
+	const serializeChildren = (
+		children: VNode[],
+		tag: string = parentTag,
+		value: string | null = selectValue
+	) =>
+		children
+			.map((child) => serializeVNode(child, rendered, tag, value))
+			.join('');
+
+	if (vnode.type === 'text') {
+		return RAW_TEXT_ELEMENTS.has(parentTag)
+			? vnode.text
+			: escapeText(vnode.text);
+	}
+
+	if (vnode.type === 'component') {
+		const { component } = vnode;
+		rendered.push(component);
+		const host = component.renderToVNode();
+
+		// State is serialized on the host element, to restore it on hydration
+		const state = component.getHydrationState();
+		if (state) {
+			try {
+				host.props[HYDRATION_STATE_ATTRIBUTE] = JSON.stringify(state);
+			} catch (error) {
+				console.warn(
+					`State of ${component.constructor.name} can't be serialized:`,
+					error
+				);
+			}
+		}
+
+		return serializeVNode(host, rendered, parentTag, selectValue);
+	}
+
+	// Fragments keep the comment anchors they have in the browser
+	if (vnode.type === 'fragment') {
+		return `<!--[-->${serializeChildren(vnode.children)}<!--]-->`;
+	}
+
+	// Portal content is rendered into its target in the browser
+	if (vnode.type === 'portal') {
+		return '<!--portal-->';
+	}
+
+	const { tagName } = vnode;
+	const props = vnode.props || {};
+	let attributes = serializeProps(tagName, props);
+
+	// Mark the option matching the value of its select
+	if (tagName === 'option' && selectValue !== null && !('selected' in props)) {
+		const optionValue =
+			'value' in props ? String(props.value) : getTextContent(vnode.children);
+		if (optionValue === selectValue) {
+			attributes += ' selected';
+		}
+	}
+
+	if (VOID_ELEMENTS.has(tagName)) {
+		return `<${tagName}${attributes}>`;
+	}
+
+	let content: string;
+	if (tagName === 'textarea' && 'value' in props) {
+		content = escapeText(String(props.value ?? ''));
+	} else if (tagName === 'select') {
+		const value =
+			props.value !== null && props.value !== undefined
+				? String(props.value)
+				: null;
+		content = serializeChildren(vnode.children, tagName, value);
+	} else {
+		content = serializeChildren(vnode.children, tagName);
+	}
+
+	return `<${tagName}${attributes}>${content}</${tagName}>`;
+};
+
+/**
+ * Render a VNode tree or a component to an HTML string
+ * Works without a DOM: components are rendered synchronously and their
+ * effects are not run. Without a DOM the rendered components are destroyed
+ * afterwards, as they only exist for this string.
+ */
+export const renderToString = (input: VNode | Component): string => {
+	const rendered: Component[] = [];
+	const wasRendering = renderingToString;
+	renderingToString = true;
+
+	try {
+		const vnode: VNode =
+			input instanceof Component
+				? { type: 'component', component: input, props: {} }
+				: input;
+
+		return serializeVNode(vnode, rendered);
+	} finally {
+		renderingToString = wasRendering;
+
+		if (!canUseDOM) {
+			for (const component of rendered) {
+				destroyComponent(component);
+			}
+		}
+	}
+};
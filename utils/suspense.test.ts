@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Component } from './component';
+import { Suspense, lazy } from './suspense';
+import { VNode, createElement, destroyComponent, mount } from './vdom';
+
+class Chart extends Component {
+	protected render(): VNode {
+		return createElement('p', {}, 'chart');
+	}
+}
+
+const wait = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Render a lazy Chart in a Suspense boundary, loading when load() is called
+ */
+const renderLazyChart = (delay: number) => {
+	let load = () => {};
+	const loaded = new Promise<void>((resolve) => (load = resolve));
+	const LazyChart = lazy(async () => {
+		await loaded;
+		return { default: Chart };
+	});
+
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const suspense = new Suspense({ render: () => new LazyChart(), delay });
+	mount({ type: 'component', component: suspense, props: {} }, container);
+
+	const content = () =>
+		container.querySelector<HTMLElement>('.suspense-content')!;
+	const fallback = () => container.querySelector('.suspense-fallback');
+	return { suspense, load, content, fallback };
+};
+
+describe('Suspense', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('shows its fallback after the delay until the lazy component loads', async () => {
+		const { suspense, load, content, fallback } = renderLazyChart(300);
+
+		await wait(100);
+		expect(content().hidden).toBe(true);
+		expect(fallback()).toBeNull();
+
+		await wait(300);
+		expect(fallback()).not.toBeNull();
+
+		load();
+		await wait(150);
+		expect(fallback()).toBeNull();
+		expect(content().hidden).toBe(false);
+		expect(content().textContent).toBe('chart');
+		destroyComponent(suspense);
+	});
+
+	it("doesn't show its fallback when loading is faster than the delay", async () => {
+		const { suspense, load, content, fallback } = renderLazyChart(400);
+
+		await wait(100);
+		load();
+		await wait(500);
+
+		expect(fallback()).toBeNull();
+		expect(content().textContent).toBe('chart');
+		destroyComponent(suspense);
+	});
+});
@@ -0,0 +1,190 @@
+/**
+ * Suspense boundaries and lazy components
+ * A component whose content isn't ready calls suspend() with a promise.
+ * The nearest Suspense boundary hides its content until every pending
+ * promise settled, and shows a fallback if that takes longer than a delay.
+ */
+
+import { Component } from './component';
+import { TComponentConstructor } from './component-types';
+import { html } from './jsx-vdom';
+import { VNode, createElement, createFragment } from './vdom';
+
+export type TSuspenseProps = {
+	// Content of the boundary
+	render: () => VNode | Component;
+	// Shown while descendants are pending
+	fallback?: () => VNode;
+	// Time in ms before the fallback is shown, so fast loads don't flash it
+	delay?: number;
+};
+
+export class Suspense extends Component {
+	private pending = new Set<Promise<unknown>>();
+	private showFallback = false;
+	private fallbackTimeout: number | null = null;
+	private content: Component | null = null;
+
+	constructor(props: TSuspenseProps) {
+		super(props, 'suspense');
+	}
+
+	/**
+	 * Hide the content until the promise and all other pending ones settle
+	 */
+	public override catchSuspend(promise: Promise<unknown>): boolean {
+		if (this.pending.has(promise)) {
+			return true;
+		}
+
+		const wasPending = this.pending.size > 0;
+		this.pending.add(promise);
+
+		const settle = () => {
+			this.pending.delete(promise);
+			if (this.pending.size === 0) {
+				this.reveal();
+			}
+		};
+		promise.then(settle, settle);
+
+		if (!wasPending) {
+			const { delay = 200 } = this.props as TSuspenseProps;
+			this.fallbackTimeout = window.setTimeout(() => {
+				this.fallbackTimeout = null;
+				this.showFallback = true;
+				this.update();
+			}, delay);
+			this.update();
+		}
+
+		return true;
+	}
+
+	/**
+	 * Show the content once nothing is pending anymore
+	 */
+	private reveal(): void {
+		if (this.fallbackTimeout !== null) {
+			window.clearTimeout(this.fallbackTimeout);
+			this.fallbackTimeout = null;
+		}
+		this.showFallback = false;
+		this.update();
+	}
+
+	protected render(): VNode {
+		const { fallback } = this.props as TSuspenseProps;
+
+		// The content stays mounted while hidden, so pending descendants
+		// keep their state and the ones already loaded are not rendered again
+		return createFragment([
+			createElement(
+				'div',
+				{ class: 'suspense-content', hidden: this.pending.size > 0 },
+				this.renderContent()
+			),
+			this.showFallback
+				? fallback
+					? fallback()
+					: html`<div class="suspense-fallback">
+							<div class="loading-spinner"></div>
+						</div>`
+				: null,
+		]);
+	}
+
+	private renderContent(): VNode {
+		const { render } = this.props as TSuspenseProps;
+
+		// A content component is kept across renders of the boundary
+		if (!this.content) {
+			const content = render();
+			if (!(content instanceof Component)) {
+				return content;
+			}
+			this.content = content;
+		}
+
+		return {
+			type: 'component',
+			component: this.content,
+			props: {},
+		};
+	}
+
+	/**
+	 * Clean up when component is destroyed
+	 */
+	public override destroy(): void {
+		if (this.fallbackTimeout !== null) {
+			window.clearTimeout(this.fallbackTimeout);
+			this.fallbackTimeout = null;
+		}
+		this.pending.clear();
+		super.destroy();
+	}
+}
+
+/**
+ * Create a component that loads its implementation on first render
+ * e.g. const Chart = lazy(() => import('./Chart'))
+ * It suspends the nearest Suspense boundary until the module is loaded,
+ * and errors loading it go to the nearest error boundary
+ */
+export const lazy = <P extends Record<string, any> = {}>(
+	loader: () => Promise<{ default: TComponentConstructor<P> }>
+): TComponentConstructor<P> => {
+	// The module is loaded once for all instances
+	let loaded: TComponentConstructor<P> | null = null;
+	let loading: Promise<void> | null = null;
+
+	const load = (): Promise<void> => {
+		if (!loading) {
+			loading = loader().then((module) => {
+				loaded = module.default;
+			});
+			// Allow a retry after a failed load
+			loading.catch(() => {
+				loading = null;
+			});
+		}
+		return loading;
+	};
+
+	return class LazyComponent extends Component {
+		private inner: Component | null = null;
+		private waiting = false;
+
+		constructor(props: P = {} as P) {
+			super(props);
+		}
+
+		protected render(): VNode | void {
+			if (!loaded) {
+				if (!this.waiting) {
+					this.waiting = true;
+					const pending = load().then(
+						() => this.update(),
+						(error) => this.reportError(error, 'render')
+					);
+					pending.finally(() => {
+						this.waiting = false;
+					});
+					this.suspend(pending);
+				}
+				return;
+			}
+
+			if (!this.inner) {
+				this.inner = new loaded(this.props as P);
+			}
+
+			return {
+				type: 'component',
+				component: this.inner,
+				props: this.props,
+			};
+		}
+	};
+};
@@ -0,0 +1,21 @@
+/**
+ * Markup rendered as HTML by the html templates
+ * Values interpolated in a template are always text or attribute values,
+ * never markup. Wrapping a string with unsafeHTML() is the only way to
+ * render it as HTML, so it must never contain user input.
+ */
+export class UnsafeHTML {
+	constructor(public readonly markup: string) {}
+
+	// In an attribute the markup is only text
+	public toString(): string {
+		return this.markup;
+	}
+}
+
+/**
+ * Render trusted markup in an html template
+ * Usage: html`<div class="post">${unsafeHTML(renderedMarkdown)}</div>`
+ */
+export const unsafeHTML = (markup: string): UnsafeHTML =>
+	new UnsafeHTML(markup);
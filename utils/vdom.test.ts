@@ -0,0 +1,409 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Component } from './component';
+import {
+	THostConfig,
+	VNode,
+	VNodeElement,
+	createElement,
+	createFragment,
+	createRenderer,
+	destroyComponent,
+	onComponentUnmount,
+	patch,
+	portal,
+} from './vdom';
+
+const LIST_SIZE = 1000;
+
+const renderList = (keys: number[]): VNodeElement =>
+	createElement(
+		'ul',
+		{},
+		keys.map((key) => createElement('li', { key }, String(key)))
+	);
+
+/**
+ * Shuffle with a fixed seed, so every run checks the same order
+ */
+const shuffle = (keys: number[], seed: number): number[] => {
+	const shuffled = keys.slice();
+	for (let i = shuffled.length - 1; i > 0; i--) {
+		seed = (seed * 16807) % 2147483647;
+		const j = seed % (i + 1);
+		[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+	}
+	return shuffled;
+};
+
+/**
+ * Patch a rendered list into a new order
+ * Returns the DOM operations the patch performed
+ */
+const reorder = (from: number[], to: number[]) => {
+	const container = document.createElement('div');
+	const oldVNode = renderList(from);
+	patch(null, oldVNode, container);
+
+	const insertBefore = vi.spyOn(Node.prototype, 'insertBefore');
+	const appendChild = vi.spyOn(Node.prototype, 'appendChild');
+	const removeChild = vi.spyOn(Node.prototype, 'removeChild');
+	const createElementSpy = vi.spyOn(document, 'createElement');
+
+	patch(oldVNode, renderList(to), container);
+
+	const items = Array.from(container.querySelectorAll('li'));
+	return {
+		order: items.map((item) => Number(item.textContent)),
+		moves: insertBefore.mock.calls.length + appendChild.mock.calls.length,
+		removals: removeChild.mock.calls.length,
+		creations: createElementSpy.mock.calls.length,
+	};
+};
+
+describe('keyed children reconciliation', () => {
+	const keys = Array.from({ length: LIST_SIZE }, (_, i) => i);
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('reverses a list with n - 1 moves', () => {
+		const reversed = keys.slice().reverse();
+		const result = reorder(keys, reversed);
+
+		expect(result.order).toEqual(reversed);
+		expect(result.moves).toBe(LIST_SIZE - 1);
+		expect(result.removals).toBe(0);
+		expect(result.creations).toBe(0);
+	});
+
+	it('shuffles a list with fewer moves than items', () => {
+		const shuffled = shuffle(keys, 42);
+		const result = reorder(keys, shuffled);
+
+		expect(result.order).toEqual(shuffled);
+		expect(result.moves).toBeLessThan(LIST_SIZE);
+		expect(result.removals).toBe(0);
+		expect(result.creations).toBe(0);
+	});
+
+	it('matches unkeyed children by tag, in order', () => {
+		const container = document.createElement('div');
+		const oldVNode = createElement(
+			'div',
+			{},
+			createElement('p', {}, 'a'),
+			createElement('span', {}, 'b'),
+			createElement('p', {}, 'c')
+		);
+		patch(null, oldVNode, container);
+		const [first, span, second] = Array.from(
+			container.firstElementChild!.children
+		);
+
+		patch(
+			oldVNode,
+			createElement(
+				'div',
+				{},
+				createElement('span', {}, 'b'),
+				createElement('p', {}, 'a'),
+				createElement('p', {}, 'c'),
+				createElement('em', {}, 'd')
+			),
+			container
+		);
+
+		const children = Array.from(container.firstElementChild!.children);
+		expect(children.slice(0, 3)).toEqual([span, first, second]);
+		expect(children.map((child) => child.textContent)).toEqual([
+			'b',
+			'a',
+			'c',
+			'd',
+		]);
+	});
+
+	it('moves only the item that changed position', () => {
+		const moved = [LIST_SIZE - 1, ...keys.slice(0, LIST_SIZE - 1)];
+		const result = reorder(keys, moved);
+
+		expect(result.order).toEqual(moved);
+		expect(result.moves).toBe(1);
+	});
+});
+
+describe('fragments', () => {
+	// Items of two lines each, one element per line
+	const renderItems = (items: string[], lines = 2): VNodeElement =>
+		createElement(
+			'div',
+			{},
+			createElement('header', {}),
+			items.map((item) =>
+				createFragment(
+					Array.from({ length: lines }, (_, i) =>
+						createElement('p', {}, `${item}${i}`)
+					),
+					item
+				)
+			),
+			createElement('footer', {})
+		);
+
+	const texts = (container: HTMLElement) =>
+		Array.from(container.querySelectorAll('p'), (p) => p.textContent);
+
+	it('moves the nodes of keyed fragments together', () => {
+		const container = document.createElement('div');
+		const oldVNode = renderItems(['a', 'b', 'c']);
+		patch(null, oldVNode, container);
+		const [a0] = Array.from(container.querySelectorAll('p'));
+
+		patch(oldVNode, renderItems(['c', 'a', 'b']), container);
+
+		expect(texts(container)).toEqual(['c0', 'c1', 'a0', 'a1', 'b0', 'b1']);
+		expect(container.querySelectorAll('p')[2]).toBe(a0);
+		expect(container.firstElementChild!.lastElementChild!.tagName).toBe(
+			'FOOTER'
+		);
+	});
+
+	it('patches and removes all the roots of a fragment', () => {
+		const container = document.createElement('div');
+		const oldVNode = renderItems(['a', 'b']);
+		patch(null, oldVNode, container);
+
+		const grown = renderItems(['a', 'b'], 3);
+		patch(oldVNode, grown, container);
+		expect(texts(container)).toEqual(['a0', 'a1', 'a2', 'b0', 'b1', 'b2']);
+
+		patch(grown, renderItems(['b'], 3), container);
+		expect(texts(container)).toEqual(['b0', 'b1', 'b2']);
+		expect(container.firstElementChild!.childElementCount).toBe(5);
+	});
+});
+
+// Node of a host keeping its tree in plain objects
+type TTestNode = { name: string; children: TTestNode[]; parent?: TTestNode };
+
+const testHost: THostConfig<TTestNode> = {
+	createElement: (tagName) => ({ name: tagName, children: [] }),
+	createText: (text) => ({ name: `#${text}`, children: [] }),
+	createComment: (text) => ({ name: `<!--${text}-->`, children: [] }),
+	setText: (node, text) => {
+		node.name = `#${text}`;
+	},
+	insertBefore: (parent, node, before) => {
+		testHost.removeChild(parent, node);
+		const index = before ? parent.children.indexOf(before) : -1;
+		parent.children.splice(
+			index === -1 ? parent.children.length : index,
+			0,
+			node
+		);
+		node.parent = parent;
+	},
+	removeChild: (_parent, node) => {
+		if (node.parent) {
+			node.parent.children.splice(node.parent.children.indexOf(node), 1);
+			node.parent = undefined;
+		}
+	},
+	parentNode: (node) => node.parent || null,
+	nextSibling: (node) => {
+		const siblings = node.parent ? node.parent.children : [];
+		return siblings[siblings.indexOf(node) + 1] || null;
+	},
+	setProps: () => {},
+	updateProps: () => {},
+	resolvePortalTarget: () => {
+		throw new Error('No portals in the test host');
+	},
+};
+
+class Leaf extends Component {
+	protected render(): VNode {
+		return createElement('span', {}, 'leaf');
+	}
+}
+
+class Branch extends Component {
+	constructor(private leaf: Leaf) {
+		super();
+	}
+
+	protected render(): VNode {
+		return createElement(
+			'section',
+			{},
+			{
+				type: 'component',
+				component: this.leaf,
+				props: {},
+			}
+		);
+	}
+}
+
+describe('renderers of other hosts', () => {
+	it('destroy nested components through the renderer that mounted them', () => {
+		const renderer = createRenderer(testHost);
+		const root: TTestNode = { name: 'root', children: [] };
+		const leaf = new Leaf();
+		const branch = new Branch(leaf);
+		const destroyed: Component[] = [];
+		const unsubscribe = onComponentUnmount((component) => {
+			destroyed.push(component);
+		});
+
+		renderer.render({ type: 'component', component: branch, props: {} }, root);
+		destroyComponent(branch);
+		unsubscribe();
+
+		expect(destroyed).toEqual([leaf, branch]);
+	});
+});
+
+const nextFrame = () =>
+	new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+describe('component unmount', () => {
+	it('destroys removed components once, children first', async () => {
+		const container = document.createElement('div');
+		const leaf = new Leaf();
+		const branch = new Branch(leaf);
+		const destroy = vi.spyOn(Leaf.prototype, 'destroy');
+		const destroyed: Component[] = [];
+		const unsubscribe = onComponentUnmount((component) => {
+			destroyed.push(component);
+		});
+
+		const oldVNode = createElement(
+			'div',
+			{},
+			{ type: 'component', component: branch, props: {} }
+		);
+		patch(null, oldVNode, container);
+		// Components render their content in the next frame
+		await nextFrame();
+		expect(container.querySelector('section span')).not.toBeNull();
+
+		const newVNode = createElement('div', {}, createElement('p', {}));
+		patch(oldVNode, newVNode, container);
+		patch(newVNode, createElement('div', {}), container);
+		unsubscribe();
+
+		expect(destroyed).toEqual([leaf, branch]);
+		expect(destroy).toHaveBeenCalledOnce();
+		expect(container.querySelector('section')).toBeNull();
+		destroy.mockRestore();
+	});
+});
+
+describe('refs', () => {
+	it('hold the element from mount to removal', () => {
+		const container = document.createElement('div');
+		const ref = { current: null as HTMLInputElement | null };
+		const callback = vi.fn();
+		const render = (value: string) =>
+			createElement(
+				'div',
+				{},
+				createElement('input', { ref, value }),
+				createElement('p', { ref: callback })
+			);
+
+		const oldVNode = render('a');
+		patch(null, oldVNode, container);
+		const input = container.querySelector('input');
+		expect(ref.current).toBe(input);
+		expect(callback).toHaveBeenLastCalledWith(container.querySelector('p'));
+
+		const newVNode = render('b');
+		patch(oldVNode, newVNode, container);
+		expect(ref.current).toBe(input);
+		expect(callback).toHaveBeenCalledOnce();
+
+		patch(newVNode, createElement('div', {}), container);
+		expect(ref.current).toBeNull();
+		expect(callback).toHaveBeenLastCalledWith(null);
+	});
+
+	it('hold the component of a component VNode', () => {
+		const container = document.createElement('div');
+		const ref = { current: null as Leaf | null };
+		const leaf = new Leaf();
+
+		const oldVNode = createElement(
+			'div',
+			{},
+			{ type: 'component', component: leaf, props: {}, ref }
+		);
+		patch(null, oldVNode, container);
+		expect(ref.current).toBe(leaf);
+
+		patch(oldVNode, createElement('div', {}), container);
+		expect(ref.current).toBeNull();
+	});
+});
+
+describe('portals', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('render into their target and bubble events to where they are declared', () => {
+		const container = document.createElement('div');
+		const target = document.createElement('aside');
+		document.body.append(container, target);
+		const onClick = vi.fn();
+		const render = (label: string) =>
+			createElement(
+				'div',
+				{ onclick: onClick },
+				portal(createElement('button', {}, label), target)
+			);
+
+		const oldVNode = render('open');
+		patch(null, oldVNode, container);
+		const button = target.querySelector('button')!;
+		expect(container.querySelector('button')).toBeNull();
+
+		const newVNode = render('close');
+		patch(oldVNode, newVNode, container);
+		expect(target.querySelector('button')).toBe(button);
+		expect(button.textContent).toBe('close');
+
+		button.click();
+		expect(onClick).toHaveBeenCalledOnce();
+
+		patch(newVNode, createElement('div', {}), container);
+		expect(target.childNodes).toHaveLength(0);
+	});
+
+	it('destroy the components rendered into their target', () => {
+		const container = document.createElement('div');
+		const target = document.createElement('aside');
+		document.body.append(container, target);
+		const leaf = new Leaf();
+		const destroyed: Component[] = [];
+		const unsubscribe = onComponentUnmount((component) => {
+			destroyed.push(component);
+		});
+
+		const oldVNode = createElement(
+			'div',
+			{},
+			portal({ type: 'component', component: leaf, props: {} }, target)
+		);
+		patch(null, oldVNode, container);
+		expect(target.firstChild).toBe(leaf.getElement());
+
+		patch(oldVNode, createElement('div', {}), container);
+		unsubscribe();
+
+		expect(destroyed).toEqual([leaf]);
+		expect(target.childNodes).toHaveLength(0);
+	});
+});
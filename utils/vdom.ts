@@ -1,14 +1,21 @@
 /**
  * Virtual DOM implementation for efficient rendering
+ * VNodes are diffed by a reconciler that works on any host, the DOM
+ * being the one the app renders to (see dom-host.ts)
  */
 
 import { Component } from './component';
+import { domHost, setElementProps } from './dom-host';
+import { delegateEvents } from './events';
 
 // Define VNode types
+// el (and anchor) reference the host nodes the VNode was rendered to, which
+// depend on the renderer that mounted it: each host narrows them to its
+// own node type, e.g. DOM nodes for the DOM renderer
 export type VNodeText = {
 	type: 'text';
 	text: string;
-	el?: Node; // Reference to the actual DOM node
+	el?: unknown; // Reference to the rendered node
 };
 
 export type VNodeElement = {
@@ -16,7 +23,7 @@ export type VNodeElement = {
 	tagName: string;
 	props: Record<string, any>;
 	children: VNode[];
-	el?: Node; // Reference to the actual DOM node
+	el?: unknown; // Reference to the rendered node
 	key?: string | number; // Unique key for reconciliation
 };
 
@@ -25,27 +32,105 @@ export type VNodeComponent = {
 	component: Component;
 	props: Record<string, any>;
 	componentKey?: string; // Unique key for component caching
-	el?: Node; // Reference to the actual DOM node
+	ref?: TRef<any>; // Receives the component's handle
+	el?: unknown; // Reference to the rendered node
+	rendered?: VNodeElement; // Snapshot rendered by hosts without component nodes
+};
+
+export type VNodeFragment = {
+	type: 'fragment';
+	children: VNode[];
+	el?: unknown; // Start anchor of the fragment's range
+	anchor?: unknown; // End anchor of the fragment's range
+	key?: string | number; // Unique key for reconciliation
+};
+
+export type VNodePortal = {
+	type: 'portal';
+	children: VNode[];
+	target: Element | string; // Container, or a selector resolved on mount
+	el?: unknown; // Placeholder where the portal is declared
+	anchor?: unknown; // End anchor of the portal's children in the target
+	key?: string | number; // Unique key for reconciliation
 };
 
 // Union type for all node types
-export type VNode = VNodeText | VNodeElement | VNodeComponent;
+export type VNode =
+	VNodeText | VNodeElement | VNodeComponent | VNodeFragment | VNodePortal;
+
+// Ref passed with the ref prop: a useRef object or a callback
+export type TRef<T> = { current: T | null } | ((value: T | null) => void);
 
 /**
- * Create a virtual DOM element node
+ * Operations a renderer performs on the nodes of its host
+ * N is the type of the host's nodes, E the type of its elements
  */
-export const createElement = (
-	tagName: string,
-	props: Record<string, any> = {},
-	...children: any[]
-): VNodeElement => {
-	// Extract key from props if present
-	const key = props.key;
+export type THostConfig<N, E extends N = N> = {
+	// Create an element for a parent it is about to be inserted into,
+	// the parent decides e.g. the namespace of DOM elements
+	createElement(tagName: string, parent: N): E;
+	createText(text: string): N;
+	// Create an invisible node, used as anchor of fragments and portals
+	createComment(data: string): N;
+	setText(node: N, text: string): void;
+	// Insert (or move) a node before another one, null appends it
+	insertBefore(parent: N, node: N, before: N | null): void;
+	removeChild(parent: N, node: N): void;
+	parentNode(node: N): N | null;
+	nextSibling(node: N): N | null;
+	// Set the props of a new element, once its children are in it
+	setProps(el: E, props: Record<string, any>): void;
+	updateProps(
+		el: E,
+		oldProps: Record<string, any>,
+		newProps: Record<string, any>
+	): void;
+	// Get the node a portal renders its children into
+	resolvePortalTarget(target: VNodePortal['target']): N;
+	// Called with each top-level node of a portal's children
+	// and the placeholder where the portal is declared
+	setPortalParent?(node: N, placeholder: N): void;
+	// Get the node of a component, which renders its content itself
+	// Hosts without it render a snapshot of the component's renderToVNode()
+	getComponentNode?(component: Component): N;
+};
 
-	// Create normalized children nodes
-	const normalizedChildren: VNode[] = children
+export type TRenderer<N> = {
+	// Create the nodes of a VNode and insert them before a node of a parent
+	mount(vnode: VNode, parent: N, before?: N | null): void;
+	// Diff two VNodes and patch the nodes of the old one, returns the node
+	patch(oldVNode: VNode | null, newVNode: VNode | null, parent: N): N | null;
+	// Remove the nodes of a VNode and destroy the components in it
+	remove(vnode: VNode): void;
+	// Destroy the components in a VNode, leaving its nodes in place
+	unmount(vnode: VNode): void;
+	// Render a VNode into a container, patching what was rendered there before
+	// null removes it
+	render(vnode: VNode | null, container: N): void;
+};
+
+/**
+ * Assign a value to a ref object or call a callback ref with it
+ */
+export const setRef = <T>(ref: TRef<T> | null | undefined, value: T | null) => {
+	if (typeof ref === 'function') {
+		ref(value);
+	} else if (ref && typeof ref === 'object') {
+		ref.current = value;
+	}
+};
+
+/**
+ * Normalize raw children (strings, numbers, nested arrays) into VNodes
+ * null, undefined and booleans render nothing, e.g. {ok && <p>...</p>}
+ */
+const normalizeChildren = (children: any[]): VNode[] => {
+	return children
 		.flat(Infinity)
-		.filter((child) => child !== null && child !== undefined)
+		.filter(
+			(child) =>
+				child !== null && child !== undefined && typeof child !== 'boolean'
+		)
 		.map((child) => {
 			if (typeof child === 'string' || typeof child === 'number') {
 				return {
@@ -55,12 +140,57 @@ export const createElement = (
 			}
 			return child;
 		});
+};
+
+/**
+ * Create a virtual DOM element node
+ */
+export const createElement = (
+	tagName: string,
+	props: Record<string, any> = {},
+	...children: any[]
+): VNodeElement => {
+	// Extract key from props if present
+	const key = props.key;
 
 	return {
 		type: 'element',
 		tagName,
 		props,
-		children: normalizedChildren,
+		children: normalizeChildren(children),
+		key,
+	};
+};
+
+/**
+ * Create a virtual DOM fragment node
+ * A fragment renders several sibling roots without a wrapper element
+ */
+export const createFragment = (
+	children: any[],
+	key?: string | number
+): VNodeFragment => {
+	return {
+		type: 'fragment',
+		children: normalizeChildren(children),
+		key,
+	};
+};
+
+/**
+ * Create a portal node
+ * Its children are rendered into another container, such as document.body,
+ * but it stays in the tree for diffing and unmounting like any other child
+ */
+export const portal = (
+	children: any,
+	target: Element | string,
+	key?: string | number
+): VNodePortal => {
+	return {
+		type: 'portal',
+		children: normalizeChildren([children]),
+		target,
 		key,
 	};
 };
@@ -75,632 +205,986 @@ export const createTextNode = (text: string): VNode => {
 	};
 };
 
+// Whether a DOM is available, false when rendering on the server
+export const canUseDOM = typeof document !== 'undefined';
+
+// Listeners notified whenever a component is destroyed by the renderer
+type UnmountListener = (component: Component) => void;
+const unmountListeners = new Set<UnmountListener>();
+
+// Components that have already been destroyed, so each is destroyed once
+const destroyedComponents = new WeakSet<Component>();
+
+// Snapshots of components mounted by hosts without component nodes, with
+// the unmount of the renderer that mounted them. Other components render
+// their content into their DOM element themselves.
+const componentSnapshots = new WeakMap<
+	Component,
+	{ vnode: VNode; unmount: (vnode: VNode) => void }
+>();
+
 /**
- * Create a real DOM node from a virtual node
+ * Subscribe to component unmounts
+ * Useful in tests to check that every created component gets destroyed
+ * @returns Unsubscribe function
  */
-export const createRealNode = (vnode: VNode): Node => {
-	// Handle text nodes
-	if (vnode.type === 'text') {
-		vnode.el = document.createTextNode(vnode.text || '');
-		return vnode.el;
-	}
+export const onComponentUnmount = (listener: UnmountListener): (() => void) => {
+	unmountListeners.add(listener);
+	return () => {
+		unmountListeners.delete(listener);
+	};
+};
 
-	// Handle component nodes
-	if (vnode.type === 'component') {
-		const componentEl = vnode.component.getElement();
-		// Store reference to the DOM node
-		vnode.el = componentEl;
-		// Ensure we have the latest rendered output without directly calling protected methods
-		vnode.component.update();
-		return componentEl;
+/**
+ * Destroy a component and every component nested in its rendered output
+ * Children are destroyed before their parents, each exactly once
+ */
+export const destroyComponent = (component: Component): void => {
+	if (destroyedComponents.has(component)) {
+		return;
 	}
+	destroyedComponents.add(component);
 
-	// At this point we know it's an element node
-	const elementVNode = vnode as VNodeElement;
-	let el: Node;
-
-	// Special handling for fragments (used for array rendering)
-	if (elementVNode.tagName === 'fragment') {
-		// Create a document fragment
-		el = document.createDocumentFragment();
+	// Destroy nested components first, through the renderer that mounted them
+	const snapshot = componentSnapshots.get(component);
+	if (snapshot) {
+		snapshot.unmount(snapshot.vnode);
 	} else {
-		// Create a regular element
-		el = document.createElement(elementVNode.tagName || 'div');
+		const renderedVNode = component.getRenderedVNode();
+		if (renderedVNode) {
+			domRenderer.unmount(renderedVNode);
+		}
+	}
 
-		// Set properties/attributes (only for regular elements)
-		setProps(el as HTMLElement, elementVNode.props || {});
+	component.attachRef(null);
+	component.destroy();
 
-		// Add event listeners (only for regular elements)
-		addEventListeners(el as HTMLElement, elementVNode.props || {});
+	for (const listener of unmountListeners) {
+		listener(component);
 	}
+};
 
-	elementVNode.el = el;
-
-	// Create and append children
-	if (elementVNode.children) {
-		for (const child of elementVNode.children) {
-			const childNode = createRealNode(child);
-			el.appendChild(childNode);
-		}
+/**
+ * Get the reconciliation key of a VNode, or undefined if it has none
+ */
+const getVNodeKey = (vnode: VNode): string | number | undefined => {
+	if (
+		vnode.type === 'element' ||
+		vnode.type === 'fragment' ||
+		vnode.type === 'portal'
+	) {
+		return vnode.key;
+	}
+	if (vnode.type === 'component') {
+		return vnode.componentKey;
 	}
+	return undefined;
+};
 
-	return el;
+/**
+ * Get what unkeyed VNodes must share to be patched into each other:
+ * the type, plus the tag of elements or the instance of components
+ */
+const getVNodeKind = (vnode: VNode): unknown => {
+	if (vnode.type === 'element') {
+		return `element:${vnode.tagName}`;
+	}
+	if (vnode.type === 'component') {
+		return vnode.component;
+	}
+	return vnode.type;
 };
 
-// Utility to check if a key is a data attribute
-const isDataAttribute = (key: string): boolean => {
-	return key.startsWith('data-');
+/**
+ * Check if two VNodes can be patched into each other without recreating them
+ */
+const isSameVNode = (a: VNode, b: VNode): boolean => {
+	// Components are patched only into the same instance, a different
+	// instance replaces the old one even when their keys match
+	if (a.type === 'component' && b.type === 'component') {
+		return a.component === b.component;
+	}
+	if (a.type !== b.type || getVNodeKey(a) !== getVNodeKey(b)) {
+		return false;
+	}
+	if (a.type === 'element' && b.type === 'element') {
+		return a.tagName === b.tagName;
+	}
+	return true;
 };
 
 /**
- * Set properties/attributes on a DOM element
+ * Find the longest increasing subsequence of old indexes
+ * Entries of -1 mark new nodes and are never part of the sequence
+ * Returns the positions (not the values) that make up the subsequence
  */
-const setProps = (el: HTMLElement, props: Record<string, any>): void => {
-	for (const [key, value] of Object.entries(props)) {
-		// Skip event listeners and special attributes
-		if (key.startsWith('on') || key === 'key') {
+const getSequence = (arr: number[]): number[] => {
+	// predecessors[i] is the position before i in the best sequence ending at i
+	const predecessors = arr.slice();
+	// result[k] is the position of the smallest tail of a sequence of length k + 1
+	const result: number[] = [];
+
+	for (let i = 0; i < arr.length; i++) {
+		const value = arr[i];
+		if (value === -1) {
 			continue;
 		}
 
-		// Handle the style attribute
-		if (key === 'style' && typeof value === 'object') {
-			for (const [cssKey, cssValue] of Object.entries(value)) {
-				(el.style as any)[cssKey] = cssValue;
-			}
+		const last = result[result.length - 1];
+		if (last === undefined || arr[last] < value) {
+			predecessors[i] = last === undefined ? -1 : last;
+			result.push(i);
 			continue;
 		}
 
-		// Handle className -> class
-		if (key === 'className') {
-			el.setAttribute('class', value);
-			continue;
+		// Binary search for the first tail that is not smaller than value
+		let low = 0;
+		let high = result.length - 1;
+		while (low < high) {
+			const middle = (low + high) >> 1;
+			if (arr[result[middle]] < value) {
+				low = middle + 1;
+			} else {
+				high = middle;
+			}
 		}
 
-		// Make sure data-* attributes are set correctly
-		if (key.startsWith('data-')) {
-			el.setAttribute(key, value);
-			continue;
+		if (value < arr[result[low]]) {
+			predecessors[i] = low > 0 ? result[low - 1] : -1;
+			result[low] = i;
 		}
+	}
 
-		// Handle regular attributes
-		if (typeof value === 'boolean') {
-			if (value) {
-				el.setAttribute(key, '');
-			}
-		} else if (value !== null && value !== undefined) {
-			el.setAttribute(key, value.toString());
-		}
+	// Walk back through the predecessors to rebuild the sequence
+	let length = result.length;
+	let position = result[length - 1];
+	while (length-- > 0) {
+		result[length] = position;
+		position = predecessors[position];
 	}
+
+	return result;
 };
 
 /**
- * Add event listeners to a DOM element
+ * Create a renderer of VNodes for a host, e.g. the DOM (see dom-host.ts),
+ * a string or test backend, or a canvas scene graph
+ * The host only creates, inserts and updates its nodes, diffing and keyed
+ * reconciliation of children are the same for every host.
  */
-const addEventListeners = (
-	el: HTMLElement,
-	props: Record<string, any>
-): void => {
-	for (const [key, value] of Object.entries(props)) {
-		if (key.startsWith('on') && typeof value === 'function') {
-			const eventType = key.toLowerCase().substring(2);
-			el.addEventListener(eventType, value);
+export const createRenderer = <N extends object, E extends N = N>(
+	host: THostConfig<N, E>
+): TRenderer<N> => {
+	// VNodes last rendered into containers by render()
+	const roots = new WeakMap<N, VNode>();
+
+	/**
+	 * Get the node this renderer rendered a VNode to, its el
+	 */
+	const getNode = (vnode: VNode): N | null => (vnode.el as N) || null;
+
+	/**
+	 * Get the end anchor of a fragment or portal rendered by this renderer
+	 */
+	const getAnchor = (vnode: VNodeFragment | VNodePortal): N | null =>
+		(vnode.anchor as N) || null;
+
+	/**
+	 * Call a function for each top-level node of a VNode
+	 */
+	const forEachNode = (vnode: VNode, callback: (node: N) => void): void => {
+		const start = getNode(vnode);
+		if (vnode.type === 'fragment') {
+			const end = getAnchor(vnode);
+			let node = start;
+			while (node) {
+				const next: N | null = node === end ? null : host.nextSibling(node);
+				callback(node);
+				node = next;
+			}
+		} else if (start) {
+			callback(start);
 		}
-	}
-};
+	};
 
-/**
- * Remove event listeners from a DOM element
- */
-const removeEventListeners = (
-	el: HTMLElement,
-	props: Record<string, any>
-): void => {
-	for (const [key, value] of Object.entries(props)) {
-		if (key.startsWith('on') && typeof value === 'function') {
-			const eventType = key.toLowerCase().substring(2);
-			el.removeEventListener(eventType, value);
+	/**
+	 * Tell the host which portal placeholder the children of a portal
+	 * belong to, e.g. to bubble events from them
+	 */
+	const linkPortalChildren = (vnode: VNodePortal): void => {
+		const { setPortalParent } = host;
+		const placeholder = getNode(vnode);
+		if (!setPortalParent || !placeholder) {
+			return;
 		}
-	}
-};
+		for (const child of vnode.children) {
+			forEachNode(child, (node) => setPortalParent(node, placeholder));
+		}
+	};
 
-/**
- * Update props on a DOM element
- */
-const updateProps = (
-	el: HTMLElement,
-	oldProps: Record<string, any>,
-	newProps: Record<string, any>
-): void => {
-	// Remove old props that are no longer present
-	for (const [key, value] of Object.entries(oldProps)) {
-		if (key.startsWith('on')) {
-			// Handle event listeners separately
-			if (!(key in newProps) || newProps[key] !== value) {
-				const eventType = key.toLowerCase().substring(2);
-				(el as HTMLElement).removeEventListener(eventType, value);
-			}
-			continue;
+	/**
+	 * Create the nodes of a VNode and insert them before a node of a parent
+	 */
+	const mount = (vnode: VNode, parent: N, before: N | null = null): void => {
+		// Handle text nodes
+		if (vnode.type === 'text') {
+			const node = host.createText(vnode.text || '');
+			vnode.el = node;
+			host.insertBefore(parent, node, before);
+			return;
 		}
 
-		if (!(key in newProps)) {
-			if (key === 'className') {
-				el.removeAttribute('class');
-			} else if (key === 'style') {
-				el.removeAttribute('style');
+		// Handle component nodes
+		if (vnode.type === 'component') {
+			// Give the ref the component's handle
+			if (vnode.ref) {
+				vnode.component.attachRef(vnode.ref);
+			}
+
+			if (host.getComponentNode) {
+				const node = host.getComponentNode(vnode.component);
+				vnode.el = node;
+				host.insertBefore(parent, node, before);
 			} else {
-				el.removeAttribute(key);
+				vnode.rendered = vnode.component.renderToVNode();
+				mount(vnode.rendered, parent, before);
+				vnode.el = vnode.rendered.el;
+				componentSnapshots.set(vnode.component, {
+					vnode: vnode.rendered,
+					unmount,
+				});
 			}
+			return;
 		}
-	}
 
-	// Set new props
-	for (const [key, value] of Object.entries(newProps)) {
-		// Skip event listeners, they're added separately
-		if (key.startsWith('on')) {
-			continue;
+		// Handle fragment nodes
+		// Children are placed between two anchors so the fragment's range
+		// can still be found, moved and removed once it has been inserted
+		if (vnode.type === 'fragment') {
+			const start = host.createComment('[');
+			const end = host.createComment(']');
+			vnode.el = start;
+			vnode.anchor = end;
+
+			host.insertBefore(parent, start, before);
+			host.insertBefore(parent, end, before);
+			for (const child of vnode.children) {
+				mount(child, parent, end);
+			}
+			return;
 		}
 
-		// Skip if the value hasn't changed
-		if (oldProps[key] === value) {
-			continue;
+		// Handle portal nodes
+		// Only a placeholder is inserted in place, the children are appended to
+		// the target before an end anchor, keeping them together in the target
+		if (vnode.type === 'portal') {
+			const target = host.resolvePortalTarget(vnode.target);
+			const placeholder = host.createComment('portal');
+			const end = host.createComment('/portal');
+			vnode.el = placeholder;
+			vnode.anchor = end;
+
+			host.insertBefore(target, end, null);
+			for (const child of vnode.children) {
+				mount(child, target, end);
+			}
+			linkPortalChildren(vnode);
+
+			host.insertBefore(parent, placeholder, before);
+			return;
 		}
 
-		// Handle the style attribute
-		if (key === 'style' && typeof value === 'object') {
-			if (typeof oldProps.style === 'object') {
-				// Update changed styles
-				const oldStyle = oldProps.style || {};
-				for (const [cssKey, cssValue] of Object.entries(value)) {
-					if (oldStyle[cssKey] !== cssValue) {
-						(el.style as any)[cssKey] = cssValue;
-					}
-				}
+		// At this point we know it's an element node
+		const el = host.createElement(vnode.tagName || 'div', parent);
+		vnode.el = el;
 
-				// Remove old styles
-				for (const cssKey of Object.keys(oldStyle)) {
-					if (!(cssKey in value)) {
-						(el.style as any)[cssKey] = '';
-					}
-				}
-			} else {
-				// Apply all styles
-				for (const [cssKey, cssValue] of Object.entries(value)) {
-					(el.style as any)[cssKey] = cssValue;
-				}
-			}
-			continue;
+		// Create and append children
+		// Done before props so a <select> value can match its <option>s
+		for (const child of vnode.children || []) {
+			mount(child, el, null);
 		}
 
-		// Handle className -> class
-		if (key === 'className') {
-			el.setAttribute('class', value);
-			continue;
+		// Set properties, attributes and event handlers
+		host.setProps(el, vnode.props || {});
+
+		// Give the ref the element once it is fully set up
+		setRef(vnode.props && vnode.props.ref, el);
+
+		host.insertBefore(parent, el, before);
+	};
+
+	/**
+	 * Insert (or move) all nodes of a VNode before a reference node
+	 */
+	const move = (vnode: VNode, parent: N, before: N | null): void => {
+		// Fragments move their whole range, portals only their placeholder
+		forEachNode(vnode, (node) => host.insertBefore(parent, node, before));
+	};
+
+	/**
+	 * Remove all nodes of a VNode from their parent
+	 * and destroy every component in the removed subtree
+	 */
+	const remove = (vnode: VNode): void => {
+		forEachNode(vnode, (node) => {
+			const parent = host.parentNode(node);
+			if (parent) {
+				host.removeChild(parent, node);
+			}
+		});
+
+		unmount(vnode);
+	};
+
+	/**
+	 * Replace the nodes of an old VNode with a freshly created new VNode
+	 * A new VNode whose old one is not in a parent is appended to the parent
+	 */
+	const replace = (oldVNode: VNode, newVNode: VNode, parent: N): N | null => {
+		const oldNode = getNode(oldVNode);
+		const oldParent = oldNode ? host.parentNode(oldNode) : null;
+		if (oldParent) {
+			mount(newVNode, oldParent, oldNode);
+		} else {
+			mount(newVNode, parent, null);
 		}
+		remove(oldVNode);
+		return getNode(newVNode);
+	};
 
-		// Preserve data attributes exactly as they are
-		if (isDataAttribute(key)) {
-			el.setAttribute(key, value);
-			continue;
+	/**
+	 * Walk a removed VNode subtree and destroy the components in it
+	 */
+	const unmount = (vnode: VNode): void => {
+		if (vnode.type === 'component') {
+			// The component's content is unmounted with it
+			destroyComponent(vnode.component);
+			return;
 		}
 
-		// Handle regular attributes
-		if (typeof value === 'boolean') {
-			if (value) {
-				el.setAttribute(key, '');
-			} else {
-				el.removeAttribute(key);
+		// Portal children live in another container, removing the placeholder
+		// with its parent doesn't take them out of the host
+		if (vnode.type === 'portal') {
+			for (const child of vnode.children) {
+				remove(child);
 			}
-		} else if (value === null || value === undefined) {
-			el.removeAttribute(key);
-		} else {
-			el.setAttribute(key, value.toString());
+			const anchor = getAnchor(vnode);
+			const anchorParent = anchor ? host.parentNode(anchor) : null;
+			if (anchor && anchorParent) {
+				host.removeChild(anchorParent, anchor);
+			}
+			return;
 		}
-	}
 
-	// Add new event listeners
-	for (const [key, value] of Object.entries(newProps)) {
-		if (key.startsWith('on') && typeof value === 'function') {
-			// Only add if it's a new event handler
-			if (oldProps[key] !== value) {
-				const eventType = key.toLowerCase().substring(2);
-				if (oldProps[key]) {
-					el.removeEventListener(eventType, oldProps[key]);
-				}
-				el.addEventListener(eventType, value);
+		if (vnode.type === 'element' || vnode.type === 'fragment') {
+			for (const child of vnode.children) {
+				unmount(child);
 			}
 		}
-	}
-};
 
-/**
- * Diff and patch two virtual DOM nodes
- */
-export const patch = (
-	oldVNode: VNode | null,
-	newVNode: VNode | null,
-	parentEl: Node,
-	index = 0
-): Node | null => {
-	// If there's no old node, create a new one
-	if (!oldVNode) {
-		if (newVNode) {
-			const newNode = createRealNode(newVNode);
-			parentEl.appendChild(newNode);
-			return newNode;
+		// Clear the element's ref, after its children like on creation
+		if (vnode.type === 'element') {
+			setRef(vnode.props && vnode.props.ref, null);
 		}
-		return null;
-	}
+	};
 
-	// If there's no new node, remove the old one
-	if (!newVNode) {
-		if (oldVNode.el) {
-			parentEl.removeChild(oldVNode.el);
+	/**
+	 * Diff and patch two virtual nodes
+	 */
+	const patch = (
+		oldVNode: VNode | null,
+		newVNode: VNode | null,
+		parent: N
+	): N | null => {
+		// If there's no old node, create a new one
+		if (!oldVNode) {
+			if (newVNode) {
+				mount(newVNode, parent, null);
+				return getNode(newVNode);
+			}
+			return null;
 		}
-		return null;
-	}
 
-	// If node types differ, replace the old node
-	if (oldVNode.type !== newVNode.type) {
-		const newNode = createRealNode(newVNode);
-		if (oldVNode.el && oldVNode.el.parentNode) {
-			oldVNode.el.parentNode.replaceChild(newNode, oldVNode.el);
+		// If there's no new node, remove the old one
+		if (!newVNode) {
+			remove(oldVNode);
+			return null;
 		}
-		return newNode;
-	}
 
-	// Check if element tagNames differ (except for fragments)
-	if (
-		oldVNode.type === 'element' &&
-		newVNode.type === 'element' &&
-		oldVNode.tagName !== newVNode.tagName &&
-		// Allow fragment to match with any element for better array handling
-		oldVNode.tagName !== 'fragment' &&
-		newVNode.tagName !== 'fragment'
-	) {
-		const newNode = createRealNode(newVNode);
-		if (oldVNode.el && oldVNode.el.parentNode) {
-			oldVNode.el.parentNode.replaceChild(newNode, oldVNode.el);
+		// If node types differ, replace the old node
+		if (oldVNode.type !== newVNode.type) {
+			return replace(oldVNode, newVNode, parent);
 		}
-		return newNode;
-	}
 
-	// Handle component nodes
-	if (oldVNode.type === 'component' && newVNode.type === 'component') {
-		// If it's the same component instance, don't recreate it
-		if (oldVNode.componentKey === newVNode.componentKey) {
-			// Just update props if needed
-			if (newVNode.component.updateProps && newVNode.props) {
-				newVNode.component.updateProps(newVNode.props);
-			}
-			// Keep the old element reference
-			newVNode.el = oldVNode.el;
-			return oldVNode.el as Node;
-		} else {
-			// If it's a different component, replace it
-			const newNode = createRealNode(newVNode);
-			if (oldVNode.el && oldVNode.el.parentNode) {
-				oldVNode.el.parentNode.replaceChild(newNode, oldVNode.el);
+		// Check if element tagNames differ
+		if (
+			oldVNode.type === 'element' &&
+			newVNode.type === 'element' &&
+			oldVNode.tagName !== newVNode.tagName
+		) {
+			return replace(oldVNode, newVNode, parent);
+		}
+
+		// Handle component nodes
+		if (oldVNode.type === 'component' && newVNode.type === 'component') {
+			// If it's the same component instance, don't recreate it
+			if (oldVNode.component === newVNode.component) {
+				// Just update props if needed
+				if (newVNode.component.updateProps && newVNode.props) {
+					newVNode.component.updateProps(newVNode.props);
+				}
+				// Move the handle to a new ref
+				if (oldVNode.ref !== newVNode.ref) {
+					newVNode.component.attachRef(newVNode.ref || null);
+				}
+				// Patch the snapshot of hosts without component nodes
+				if (oldVNode.rendered) {
+					newVNode.rendered = newVNode.component.renderToVNode();
+					patch(oldVNode.rendered, newVNode.rendered, parent);
+					newVNode.el = newVNode.rendered.el;
+					componentSnapshots.set(newVNode.component, {
+						vnode: newVNode.rendered,
+						unmount,
+					});
+					return getNode(newVNode);
+				}
+				// Keep the old element reference
+				newVNode.el = oldVNode.el;
+				return getNode(oldVNode);
+			} else {
+				// If it's a different component, replace it, which destroys
+				// the old one
+				return replace(oldVNode, newVNode, parent);
 			}
-			return newNode;
 		}
-	}
 
-	// Handle text nodes
-	if (newVNode.type === 'text' && oldVNode.type === 'text') {
-		if (newVNode.text !== oldVNode.text && oldVNode.el) {
-			(oldVNode.el as Text).nodeValue = newVNode.text || '';
+		// Handle text nodes
+		if (newVNode.type === 'text' && oldVNode.type === 'text') {
+			const node = getNode(oldVNode);
+			if (newVNode.text !== oldVNode.text && node) {
+				host.setText(node, newVNode.text || '');
+			}
+			newVNode.el = node;
+			return node;
 		}
-		newVNode.el = oldVNode.el;
-		return oldVNode.el as Node;
-	}
 
-	// Update element node
-	if (
-		newVNode.type === 'element' &&
-		oldVNode.type === 'element' &&
-		oldVNode.el
-	) {
-		// Update reference to the DOM node
-		newVNode.el = oldVNode.el;
+		const oldNode = getNode(oldVNode);
 
-		// For non-fragment elements, update properties
-		if (oldVNode.tagName !== 'fragment' && newVNode.tagName !== 'fragment') {
-			// Update properties
-			updateProps(
-				oldVNode.el as HTMLElement,
-				oldVNode.props || {},
-				newVNode.props || {}
+		// Handle fragment nodes
+		if (newVNode.type === 'fragment' && oldVNode.type === 'fragment') {
+			const anchor = getAnchor(oldVNode);
+			if (!oldNode || !anchor) {
+				return null;
+			}
+
+			// Keep the anchors, the children live in the anchors' parent
+			newVNode.el = oldNode;
+			newVNode.anchor = anchor;
+
+			const rangeParent = host.parentNode(oldNode) || parent;
+			patchChildren(
+				oldVNode.children || [],
+				newVNode.children || [],
+				rangeParent,
+				anchor
 			);
+
+			return oldNode;
 		}
 
-		// Handle children
-		patchChildren(
-			oldVNode.children || [],
-			newVNode.children || [],
-			oldVNode.el as HTMLElement
-		);
+		// Handle portal nodes
+		if (newVNode.type === 'portal' && oldVNode.type === 'portal') {
+			const anchor = getAnchor(oldVNode);
+			if (!oldNode || !anchor) {
+				return null;
+			}
 
-		return oldVNode.el;
-	}
+			newVNode.el = oldNode;
+			newVNode.anchor = anchor;
 
-	return null;
-};
+			// Move the children and their anchor when the target changes
+			const target = host.resolvePortalTarget(newVNode.target);
+			if (host.parentNode(anchor) !== target) {
+				for (const child of oldVNode.children || []) {
+					move(child, target, null);
+				}
+				host.insertBefore(target, anchor, null);
+			}
 
-/**
- * Patch children of a node with efficient key-based reconciliation
- */
-const patchChildren = (
-	oldChildren: VNode[],
-	newChildren: VNode[],
-	parentEl: HTMLElement
-): void => {
-	// Step 1: Create a map of old children by key
-	const oldKeyToIndexMap = new Map<string | number, number>();
-	const oldKeyToNodeMap = new Map<string | number, VNode>();
+			patchChildren(
+				oldVNode.children || [],
+				newVNode.children || [],
+				target,
+				anchor
+			);
+			linkPortalChildren(newVNode);
 
-	// Helper to get a unique key for a VNode
-	const getVNodeKey = (vnode: VNode, index: number): string | number => {
-		if (vnode.type === 'element' && vnode.key !== undefined) {
-			return vnode.key;
+			return oldNode;
 		}
-		if (vnode.type === 'component' && vnode.componentKey) {
-			return vnode.componentKey;
+
+		// Update element node
+		if (newVNode.type === 'element' && oldVNode.type === 'element' && oldNode) {
+			// Only elements were rendered from element VNodes
+			const el = oldNode as E;
+
+			// Update reference to the rendered node
+			newVNode.el = el;
+
+			// Update properties
+			host.updateProps(el, oldVNode.props || {}, newVNode.props || {});
+
+			// Handle children
+			patchChildren(oldVNode.children || [], newVNode.children || [], el, null);
+
+			// Refs keep the element while the same ref is passed
+			const oldRef = oldVNode.props && oldVNode.props.ref;
+			const newRef = newVNode.props && newVNode.props.ref;
+			if (oldRef !== newRef) {
+				setRef(oldRef, null);
+				setRef(newRef, el);
+			}
+
+			return el;
 		}
-		// Fallback to position-based key if no explicit key
-		return `position-${index}`;
-	};
 
-	// Index old children by their keys
-	for (let i = 0; i < oldChildren.length; i++) {
-		const child = oldChildren[i];
-		const key = getVNodeKey(child, i);
-		oldKeyToIndexMap.set(key, i);
-		oldKeyToNodeMap.set(key, child);
-	}
+		return null;
+	};
 
-	// Initialize variables for tracking DOM operations
-	let lastIndex = 0;
-	const moves: Array<{ node: Node; refNode: Node | null }> = [];
+	/**
+	 * Patch children of a node with efficient key-based reconciliation
+	 * Children are placed before endAnchor, which is the fragment's end anchor
+	 * when patching a fragment's range, or null for a whole element
+	 *
+	 * The common prefix and suffix are patched in place first. For what is
+	 * left in the middle, nodes on the longest increasing subsequence of their
+	 * old positions stay where they are and only the others are moved, which
+	 * keeps moves to the minimum (e.g. n - 1 for a reversed list).
+	 * Unkeyed children are matched by position and type.
+	 */
+	const patchChildren = (
+		oldChildren: VNode[],
+		newChildren: VNode[],
+		parentEl: N,
+		endAnchor: N | null
+	): void => {
+		// Helper to get the node that new children at an index go before
+		const getNextNode = (index: number): N | null => {
+			return index < newChildren.length
+				? getNode(newChildren[index]) || endAnchor
+				: endAnchor;
+		};
+
+		// Warn about duplicate keys, they make matching ambiguous
+		const seenKeys = new Set<string | number>();
+		for (const child of newChildren) {
+			const key = getVNodeKey(child);
+			if (key === undefined) {
+				continue;
+			}
+			if (seenKeys.has(key)) {
+				console.warn(
+					`Duplicate key "${key}" found among siblings, keys must be unique`
+				);
+			}
+			seenKeys.add(key);
+		}
 
-	// Track which old nodes are used
-	const usedKeys = new Set<string | number>();
+		let start = 0;
+		let oldEnd = oldChildren.length - 1;
+		let newEnd = newChildren.length - 1;
 
-	// First, handle all new children
-	for (let i = 0; i < newChildren.length; i++) {
-		const newChild = newChildren[i];
-		const newKey = getVNodeKey(newChild, i);
+		// Step 1: Patch the common prefix
+		while (
+			start <= oldEnd &&
+			start <= newEnd &&
+			isSameVNode(oldChildren[start], newChildren[start])
+		) {
+			patch(oldChildren[start], newChildren[start], parentEl);
+			start++;
+		}
 
-		let oldIndex = -1;
-		let oldChild: VNode | null = null;
+		// Step 2: Patch the common suffix
+		while (
+			start <= oldEnd &&
+			start <= newEnd &&
+			isSameVNode(oldChildren[oldEnd], newChildren[newEnd])
+		) {
+			patch(oldChildren[oldEnd], newChildren[newEnd], parentEl);
+			oldEnd--;
+			newEnd--;
+		}
 
-		// Try to find old child with matching key
-		if (oldKeyToNodeMap.has(newKey)) {
-			oldIndex = oldKeyToIndexMap.get(newKey) || -1;
-			oldChild = oldKeyToNodeMap.get(newKey) || null;
-			usedKeys.add(newKey);
+		// Step 3: Only additions are left
+		if (start > oldEnd) {
+			const anchor = getNextNode(newEnd + 1);
+			for (let i = start; i <= newEnd; i++) {
+				mount(newChildren[i], parentEl, anchor);
+			}
+			return;
 		}
 
-		// If we found a matching old node
-		if (oldChild) {
-			// Patch the old node with the new data
-			patch(oldChild, newChild, parentEl);
+		// Step 4: Only removals are left
+		if (start > newEnd) {
+			for (let i = start; i <= oldEnd; i++) {
+				remove(oldChildren[i]);
+			}
+			return;
+		}
 
-			// Transfer reference to DOM node
-			newChild.el = oldChild.el;
+		// Step 5: Match the remaining old children against the new ones
+		// Unkeyed new children are queued by kind, in order
+		const keyToNewIndex = new Map<string | number, number>();
+		const unkeyedNewIndexes = new Map<
+			unknown,
+			{ indexes: number[]; next: number }
+		>();
+		for (let i = start; i <= newEnd; i++) {
+			const key = getVNodeKey(newChildren[i]);
+			if (key !== undefined) {
+				keyToNewIndex.set(key, i);
+				continue;
+			}
 
-			// Check if we need to move this node
-			if (oldIndex < lastIndex) {
-				// Node needs to be moved to a later position
-				if (oldChild.el) {
-					// Queue move operation to be performed after all patches
-					const refNode =
-						i + 1 < newChildren.length ? newChildren[i + 1].el || null : null;
-					moves.push({ node: oldChild.el, refNode });
-				}
+			const kind = getVNodeKind(newChildren[i]);
+			const queue = unkeyedNewIndexes.get(kind);
+			if (queue) {
+				queue.indexes.push(i);
 			} else {
-				// Update lastIndex if this node doesn't need to be moved
-				lastIndex = oldIndex;
+				unkeyedNewIndexes.set(kind, { indexes: [i], next: 0 });
 			}
-		} else {
-			// No matching old node, create a new one
-			const newNode = createRealNode(newChild);
-
-			// Figure out where to insert
-			// This is a bit complex because we need to consider both existing nodes and future nodes
-			let insertPosition = i;
-			// Look ahead to find if any following nodes have already been processed
-			for (let j = i + 1; j < newChildren.length; j++) {
-				const nextKey = getVNodeKey(newChildren[j], j);
-				if (oldKeyToNodeMap.has(nextKey) && newChildren[j].el) {
-					insertPosition = j;
-					break;
+		}
+
+		// Old index of each remaining new child, -1 for nodes to create
+		const newIndexToOldIndex: number[] = new Array(newEnd - start + 1).fill(-1);
+		let moved = false;
+		let maxNewIndexSoFar = 0;
+
+		for (let i = start; i <= oldEnd; i++) {
+			const oldChild = oldChildren[i];
+			const key = getVNodeKey(oldChild);
+			let newIndex: number | undefined;
+
+			if (key !== undefined) {
+				newIndex = keyToNewIndex.get(key);
+			} else {
+				// Unkeyed: take the first unmatched unkeyed node of the same kind
+				const queue = unkeyedNewIndexes.get(getVNodeKind(oldChild));
+				if (queue && queue.next < queue.indexes.length) {
+					newIndex = queue.indexes[queue.next++];
 				}
 			}
 
-			// Insert at the correct position
-			if (insertPosition > i) {
-				// Insert before a node we found ahead
-				parentEl.insertBefore(newNode, newChildren[insertPosition].el || null);
+			// No match (or the key is already taken by a duplicate): remove it
+			if (
+				newIndex === undefined ||
+				newIndexToOldIndex[newIndex - start] !== -1
+			) {
+				remove(oldChild);
+				continue;
+			}
+
+			newIndexToOldIndex[newIndex - start] = i;
+			if (newIndex >= maxNewIndexSoFar) {
+				maxNewIndexSoFar = newIndex;
 			} else {
-				// Insert at current index
-				const refNode = parentEl.childNodes[i] || null;
-				parentEl.insertBefore(newNode, refNode);
+				moved = true;
 			}
+
+			patch(oldChild, newChildren[newIndex], parentEl);
 		}
-	}
 
-	// Now perform all queued move operations
-	for (const { node, refNode } of moves) {
-		parentEl.insertBefore(node, refNode);
-	}
+		// Step 6: Walk backwards, creating new nodes and moving the ones that are
+		// not part of the longest increasing subsequence. Going backwards means
+		// the next sibling is always already in its final position.
+		const sequence = moved ? getSequence(newIndexToOldIndex) : [];
+		let sequenceIndex = sequence.length - 1;
+
+		for (let i = newIndexToOldIndex.length - 1; i >= 0; i--) {
+			const newIndex = start + i;
+			const newChild = newChildren[newIndex];
+			const anchor = getNextNode(newIndex + 1);
+
+			if (newIndexToOldIndex[i] === -1) {
+				mount(newChild, parentEl, anchor);
+			} else if (moved) {
+				if (sequenceIndex < 0 || i !== sequence[sequenceIndex]) {
+					move(newChild, parentEl, anchor);
+				} else {
+					sequenceIndex--;
+				}
+			}
+		}
+	};
+
+	/**
+	 * Render a VNode into a container, patching what was rendered there
+	 * by the previous call, null removes it
+	 */
+	const render = (vnode: VNode | null, container: N): void => {
+		patch(roots.get(container) || null, vnode, container);
 
-	// Remove old nodes that aren't in the new children list
-	for (let i = 0; i < oldChildren.length; i++) {
-		const child = oldChildren[i];
-		const key = getVNodeKey(child, i);
-		if (!usedKeys.has(key) && child.el) {
-			parentEl.removeChild(child.el);
+		if (vnode) {
+			roots.set(container, vnode);
+		} else {
+			roots.delete(container);
 		}
-	}
+	};
+
+	return { mount, patch, remove, unmount, render };
 };
 
+// Renderer of the app, into the DOM
+export const domRenderer = createRenderer<Node, Element>(domHost);
+
+/**
+ * Diff and patch two virtual DOM nodes
+ */
+export const patch = domRenderer.patch;
+
 /**
  * Mount a virtual node to a DOM element
  */
 export const mount = (vnode: VNode, container: HTMLElement): void => {
-	const realNode = createRealNode(vnode);
+	// Events of everything rendered here are delegated to the container
+	delegateEvents(container);
+
 	container.innerHTML = '';
-	container.appendChild(realNode);
+	domRenderer.mount(vnode, container);
 };
 
+// Hydration mismatches are reported in development builds only
+// (webpack replaces process.env.NODE_ENV with the build mode)
+const reportMismatches = process.env.NODE_ENV !== 'production';
+
 /**
- * Mount and then update a virtual node
+ * Report markup that doesn't match the VNodes hydrating it
  */
-export const render = (
-	oldVNode: VNode | null,
-	newVNode: VNode,
-	container: HTMLElement
-): VNode => {
-	if (!oldVNode) {
-		mount(newVNode, container);
-	} else {
-		patch(oldVNode, newVNode, container);
+const warnMismatch = (message: string, node: Node | null): void => {
+	if (reportMismatches) {
+		console.warn(`Hydration mismatch: ${message}`, node);
 	}
-	return newVNode;
 };
 
 /**
- * Render a virtual DOM node to a real DOM node
+ * Check if a DOM node is a comment written by the renderer
  */
-export const renderVNode = (vnode: VNode): Node => {
-	if (vnode.type === 'text') {
-		return document.createTextNode(vnode.text);
+const isAnchorComment = (node: Node, data?: string): boolean => {
+	if (node.nodeType !== Node.COMMENT_NODE) {
+		return false;
 	}
+	const text = (node as Comment).data;
+	return data !== undefined
+		? text === data
+		: text === '[' || text === ']' || text === 'portal';
+};
 
-	if (vnode.type === 'component') {
-		// For component nodes, simply return the component's element
-		return vnode.component.getElement();
+/**
+ * Check if a DOM node can be skipped while hydrating a VNode
+ * Formatting whitespace and comments of the page itself don't match anything
+ */
+const isSkippable = (node: Node, expectsText: boolean): boolean => {
+	if (node.nodeType === Node.COMMENT_NODE) {
+		return !isAnchorComment(node);
 	}
+	return (
+		!expectsText &&
+		node.nodeType === Node.TEXT_NODE &&
+		!(node as Text).data.trim()
+	);
+};
 
-	const element = document.createElement(vnode.tagName);
-
-	// Set attributes and event handlers
-	for (const [key, value] of Object.entries(vnode.props)) {
-		// Skip null/undefined values
-		if (value === null || value === undefined) continue;
-
-		// Handle event handlers (props starting with 'on')
-		if (key.startsWith('on') && typeof value === 'function') {
-			const eventName = key.slice(2).toLowerCase();
-			element.addEventListener(eventName, value);
-		} else {
-			// Set attribute
-			if (key === 'className') {
-				// Handle className -> class conversion
-				element.setAttribute('class', String(value));
-			} else if (key.startsWith('data-')) {
-				// Handle data attributes
-				element.setAttribute(key, String(value));
-			} else {
-				element.setAttribute(key, String(value));
-			}
+/**
+ * Remove server-rendered nodes no VNode matched, up to an end node
+ */
+const removeUnmatchedNodes = (
+	node: Node | null,
+	end: Node | null,
+	parent: Node
+): void => {
+	while (node && node !== end) {
+		const next: Node | null = node.nextSibling;
+		if (!isSkippable(node, false)) {
+			warnMismatch('extra node in server markup', node);
 		}
+		parent.removeChild(node);
+		node = next;
 	}
+};
 
-	// Append children
-	for (const child of vnode.children) {
-		element.appendChild(renderVNode(child));
+/**
+ * Hydrate VNode children into the DOM nodes from a node up to an end node
+ */
+const hydrateChildren = (
+	children: VNode[],
+	node: Node | null,
+	end: Node | null,
+	parent: Node
+): void => {
+	for (const child of children) {
+		node = hydrateNode(child, node === end ? null : node, parent, end);
 	}
-
-	return element;
+	removeUnmatchedNodes(node, end, parent);
 };
 
 /**
- * Patch an existing DOM node with a virtual DOM node
- * This is a simple implementation for now, not a full diff algorithm
+ * Hydrate a VNode into the DOM node at a position
+ * A node that doesn't match is replaced by one rendered on the client
+ * Returns the node after the ones the VNode adopted
  */
-export const patchDOM = (oldNode: Node, vnode: VNode): Node => {
-	// If we're dealing with a component node, just replace with the component's element
-	if (vnode.type === 'component') {
-		const newNode = vnode.component.getElement();
-		oldNode.parentNode?.replaceChild(newNode, oldNode);
-		return newNode;
+const hydrateNode = (
+	vnode: VNode,
+	node: Node | null,
+	parent: Node,
+	end: Node | null
+): Node | null => {
+	while (node && isSkippable(node, vnode.type === 'text')) {
+		const next: Node | null = node.nextSibling;
+		parent.removeChild(node);
+		node = next;
 	}
 
-	// If types don't match or element types differ, replace the node
-	if (
-		(vnode.type === 'text' && oldNode.nodeType !== Node.TEXT_NODE) ||
-		(vnode.type === 'element' &&
-			(oldNode.nodeType !== Node.ELEMENT_NODE ||
-				(oldNode as HTMLElement).tagName.toLowerCase() !== vnode.tagName))
-	) {
-		const newNode = renderVNode(vnode);
-		oldNode.parentNode?.replaceChild(newNode, oldNode);
-		return newNode;
-	}
+	// Render the VNode on the client, replacing the node if there is one
+	const renderOnClient = (reason: string): Node | null => {
+		warnMismatch(reason, node);
+		if (!node) {
+			domRenderer.mount(vnode, parent, end);
+			return null;
+		}
+		domRenderer.mount(vnode, parent, node);
+		// Fragments may span several nodes, keep the node for the next VNode
+		if (vnode.type === 'fragment' || vnode.type === 'portal') {
+			return node;
+		}
+		const next = node.nextSibling;
+		parent.removeChild(node);
+		return next;
+	};
 
-	// Text nodes just need to update content
 	if (vnode.type === 'text') {
-		if (oldNode.textContent !== vnode.text) {
-			oldNode.textContent = vnode.text;
+		// Empty text is not in the markup at all
+		if (!vnode.text) {
+			const empty = document.createTextNode('');
+			vnode.el = empty;
+			parent.insertBefore(empty, node || end);
+			return node;
+		}
+		if (!node || node.nodeType !== Node.TEXT_NODE) {
+			return renderOnClient(`expected text "${vnode.text}"`);
+		}
+
+		// Adjacent text VNodes were merged into one text node by the parser
+		const text = node as Text;
+		if (text.data !== vnode.text && text.data.startsWith(vnode.text)) {
+			text.splitText(vnode.text.length);
+		} else if (text.data !== vnode.text) {
+			warnMismatch(`expected text "${vnode.text}"`, node);
+			text.data = vnode.text;
 		}
-		return oldNode;
+		vnode.el = text;
+		return text.nextSibling;
 	}
 
-	// For element nodes, update attributes and children
-	const element = oldNode as HTMLElement;
+	if (vnode.type === 'fragment') {
+		if (!node || !isAnchorComment(node, '[')) {
+			return renderOnClient('expected a fragment');
+		}
 
-	// Update attributes
-	// Get current attribute names
-	const oldAttrs = Array.from(element.attributes).map((attr) => attr.name);
+		// Find the fragment's end anchor, skipping nested fragments
+		let depth = 0;
+		let anchor: Node | null = node.nextSibling;
+		while (anchor) {
+			if (isAnchorComment(anchor, '[')) {
+				depth++;
+			} else if (isAnchorComment(anchor, ']')) {
+				if (depth === 0) {
+					break;
+				}
+				depth--;
+			}
+			anchor = anchor.nextSibling;
+		}
+		if (!anchor) {
+			return renderOnClient('fragment without an end anchor');
+		}
 
-	// Add/update new attributes
-	for (const [key, value] of Object.entries(vnode.props)) {
-		// Skip event handlers for now
-		if (key.startsWith('on') && typeof value === 'function') continue;
+		vnode.el = node;
+		vnode.anchor = anchor;
+		hydrateChildren(vnode.children, node.nextSibling, anchor, parent);
+		return anchor.nextSibling;
+	}
 
-		// Set attribute if it has changed
-		const attrName = key === 'className' ? 'class' : key;
-		if (element.getAttribute(attrName) !== String(value)) {
-			element.setAttribute(attrName, String(value));
+	// Portal content only exists on the client, it is rendered into the target
+	if (vnode.type === 'portal') {
+		if (!node || !isAnchorComment(node, 'portal')) {
+			return renderOnClient('expected a portal');
 		}
+		const next = node.nextSibling;
+		domRenderer.mount(vnode, parent, node);
+		parent.removeChild(node);
+		return next;
 	}
 
-	// Remove old attributes that are no longer needed
-	for (const attrName of oldAttrs) {
+	if (vnode.type === 'component') {
+		const tagName = vnode.component.getElement().localName;
 		if (
-			!(attrName in vnode.props) &&
-			attrName !== 'class' && // Handle className special case
-			!(attrName === 'class' && 'className' in vnode.props)
+			!node ||
+			node.nodeType !== Node.ELEMENT_NODE ||
+			(node as Element).localName !== tagName
 		) {
-			element.removeAttribute(attrName);
+			return renderOnClient(`expected <${tagName}> of a component`);
+		}
+
+		vnode.component.hydrate(node as HTMLElement);
+		vnode.el = node;
+		if (vnode.ref) {
+			vnode.component.attachRef(vnode.ref);
 		}
+		return node.nextSibling;
 	}
 
-	// Update event handlers
-	// (This is simplified - a real implementation would track and update handlers)
+	if (
+		!node ||
+		node.nodeType !== Node.ELEMENT_NODE ||
+		(node as Element).localName.toLowerCase() !== vnode.tagName.toLowerCase()
+	) {
+		return renderOnClient(`expected <${vnode.tagName}>`);
+	}
 
-	// Update children
-	// This is a simplified approach - a more efficient approach would be to use a key-based diff
-	const childNodes = Array.from(element.childNodes);
+	// Adopt the element, like mounting it sets it up
+	const el = node as Element;
+	vnode.el = el;
+	hydrateChildren(vnode.children || [], el.firstChild, null, el);
+	setElementProps(el, vnode.props || {});
+	setRef(vnode.props && vnode.props.ref, el);
 
-	// Add new children or update existing ones
-	for (let i = 0; i < vnode.children.length; i++) {
-		const childVNode = vnode.children[i];
+	return el.nextSibling;
+};
 
-		if (i < childNodes.length) {
-			// Update existing child
-			patchDOM(childNodes[i], childVNode);
-		} else {
-			// Add new child
-			element.appendChild(renderVNode(childVNode));
-		}
-	}
+/**
+ * Hydrate server-rendered markup in a container
+ * The VNodes adopt the existing DOM nodes instead of recreating them,
+ * attaching their el references, event handlers and refs. Subtrees that
+ * don't match are reported in development and rendered on the client.
+ */
+export const hydrate = (vnode: VNode, container: Element): void => {
+	// Events of everything hydrated here are delegated to the container
+	delegateEvents(container);
 
-	// Remove extra children
-	while (element.childNodes.length > vnode.children.length) {
-		element.removeChild(element.lastChild!);
-	}
+	hydrateChildren([vnode], container.firstChild, null, container);
+};
 
-	return element;
+/**
+ * Mount and then update a virtual node
+ */
+export const render = (
+	oldVNode: VNode | null,
+	newVNode: VNode,
+	container: HTMLElement
+): VNode => {
+	if (!oldVNode) {
+		mount(newVNode, container);
+	} else {
+		patch(oldVNode, newVNode, container);
+	}
+	return newVNode;
 };
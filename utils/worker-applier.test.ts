@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mountWorker } from './worker-applier';
+import { ROOT_NODE_ID, TPatch, TWorkerMessage } from './worker-protocol';
+
+/**
+ * Stand-in for a Worker, posting messages to the main thread on demand
+ */
+class FakeWorker extends EventTarget {
+	public postMessage = vi.fn();
+	public terminate = vi.fn();
+
+	public post(patches: TPatch[]): void {
+		const data: TWorkerMessage = { type: 'patches', patches };
+		this.dispatchEvent(new MessageEvent('message', { data }));
+	}
+}
+
+const mountFakeWorker = () => {
+	const worker = new FakeWorker();
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const stop = mountWorker(worker as unknown as Worker, container);
+	return { worker, container, stop };
+};
+
+describe('mountWorker', () => {
+	it('applies the patches posted by the Worker', () => {
+		const { worker, container, stop } = mountFakeWorker();
+
+		worker.post([
+			{ op: 'create', id: 1, kind: 'element', tagName: 'ul', parent: 0 },
+			{ op: 'setProp', id: 1, name: 'class', value: 'list' },
+			{ op: 'create', id: 2, kind: 'element', tagName: 'li', parent: 1 },
+			{ op: 'create', id: 3, kind: 'text', text: 'b' },
+			{ op: 'insert', parent: 2, id: 3, before: null },
+			{ op: 'insert', parent: 1, id: 2, before: null },
+			{ op: 'create', id: 4, kind: 'element', tagName: 'li', parent: 1 },
+			{ op: 'insert', parent: 1, id: 4, before: 2 },
+			{ op: 'insert', parent: ROOT_NODE_ID, id: 1, before: null },
+		]);
+		expect(container.innerHTML).toBe(
+			'<ul class="list"><li></li><li>b</li></ul>'
+		);
+
+		worker.post([
+			{ op: 'setText', id: 3, text: 'c' },
+			{ op: 'remove', parent: 1, id: 4 },
+			{ op: 'setProp', id: 1, name: 'class', value: undefined },
+		]);
+		expect(container.innerHTML).toBe('<ul><li>c</li></ul>');
+
+		stop();
+		expect(worker.terminate).toHaveBeenCalledOnce();
+		expect(container.childNodes).toHaveLength(0);
+	});
+
+	it('creates elements in the namespace of their parent', () => {
+		const { worker, container, stop } = mountFakeWorker();
+
+		worker.post([
+			{ op: 'create', id: 1, kind: 'element', tagName: 'svg', parent: 0 },
+			{ op: 'create', id: 2, kind: 'element', tagName: 'circle', parent: 1 },
+			{ op: 'insert', parent: 1, id: 2, before: null },
+			{ op: 'insert', parent: ROOT_NODE_ID, id: 1, before: null },
+		]);
+
+		expect(container.querySelector('circle')!.namespaceURI).toBe(
+			'http://www.w3.org/2000/svg'
+		);
+		stop();
+	});
+
+	it('posts the events of elements with a handler to the Worker', () => {
+		const { worker, container, stop } = mountFakeWorker();
+
+		worker.post([
+			{ op: 'create', id: 1, kind: 'element', tagName: 'input', parent: 0 },
+			{ op: 'setProp', id: 1, name: 'oninput', value: true },
+			{ op: 'insert', parent: ROOT_NODE_ID, id: 1, before: null },
+		]);
+		const input = container.querySelector('input')!;
+		input.value = 'typed';
+		input.dispatchEvent(new Event('input', { bubbles: true }));
+
+		expect(worker.postMessage).toHaveBeenCalledWith({
+			type: 'event',
+			id: 1,
+			name: 'oninput',
+			event: { type: 'input', target: { value: 'typed', checked: false } },
+		});
+
+		worker.post([{ op: 'setProp', id: 1, name: 'oninput', value: undefined }]);
+		input.dispatchEvent(new Event('input', { bubbles: true }));
+		expect(worker.postMessage).toHaveBeenCalledOnce();
+		stop();
+	});
+});
@@ -0,0 +1,237 @@
+/**
+ * Main thread side of rendering in a Worker
+ * Applies the patches a Worker posts (see worker-renderer.ts) to the DOM
+ * through the DOM host, and posts the DOM events of the rendered elements
+ * back to the Worker.
+ */
+
+import { Component } from './component';
+import { domHost, isEventProp } from './dom-host';
+import { delegateEvents } from './events';
+import { scheduleImmediate } from './scheduler';
+import { canUseDOM } from './vdom';
+import {
+	ROOT_NODE_ID,
+	TMainMessage,
+	TPatch,
+	TSerializedEvent,
+	TWorkerMessage,
+} from './worker-protocol';
+
+// Primitive event fields copied to the Worker
+const EVENT_FIELDS = [
+	'key',
+	'code',
+	'repeat',
+	'button',
+	'buttons',
+	'clientX',
+	'clientY',
+	'offsetX',
+	'offsetY',
+	'deltaX',
+	'deltaY',
+	'altKey',
+	'ctrlKey',
+	'metaKey',
+	'shiftKey',
+];
+
+/**
+ * Copy the serializable parts of a DOM event
+ */
+const serializeEvent = (event: Event): TSerializedEvent => {
+	const serialized: TSerializedEvent = { type: event.type, target: {} };
+
+	for (const field of EVENT_FIELDS) {
+		if (field in event) {
+			serialized[field] = (event as any)[field];
+		}
+	}
+
+	const target = event.target as Partial<HTMLInputElement> | null;
+	if (target && typeof target.value === 'string') {
+		serialized.target.value = target.value;
+	}
+	if (target && typeof target.checked === 'boolean') {
+		serialized.target.checked = target.checked;
+	}
+
+	return serialized;
+};
+
+/**
+ * Display what a Worker renders in a container
+ * Returns a function that terminates the Worker and empties the container
+ */
+export const mountWorker = (
+	worker: Worker,
+	container: Element
+): (() => void) => {
+	const nodes = new Map<number, Node>([[ROOT_NODE_ID, container]]);
+	const ids = new WeakMap<Node, number>();
+	// Props last applied to each element, to diff the next one against
+	const elementProps = new WeakMap<Element, Record<string, any>>();
+
+	const getNode = (id: number): Node => {
+		const node = nodes.get(id);
+		if (!node) {
+			throw new Error(`Unknown node ${id} in a patch from the Worker`);
+		}
+		return node;
+	};
+
+	const addNode = (id: number, node: Node): void => {
+		nodes.set(id, node);
+		ids.set(node, id);
+	};
+
+	/**
+	 * Release the ids of a removed node and its subtree
+	 */
+	const releaseNode = (node: Node): void => {
+		const id = ids.get(node);
+		if (id !== undefined) {
+			nodes.delete(id);
+		}
+		node.childNodes.forEach(releaseNode);
+	};
+
+	/**
+	 * Post the events of an event prop to the Worker's handler
+	 */
+	const createListener =
+		(id: number, name: string) =>
+		(event: Event): void => {
+			const message: TMainMessage = {
+				type: 'event',
+				id,
+				name,
+				event: serializeEvent(event),
+			};
+			worker.postMessage(message);
+		};
+
+	/**
+	 * Set a prop of an element, or remove it with undefined
+	 */
+	const setProp = (id: number, name: string, value: any): void => {
+		const el = getNode(id) as Element;
+		const oldProps = elementProps.get(el) || {};
+		const newProps = { ...oldProps };
+
+		if (value === undefined) {
+			delete newProps[name];
+		} else if (!isEventProp(name)) {
+			newProps[name] = value;
+		} else if (!(name in oldProps)) {
+			// The same listener is kept while the Worker has a handler
+			newProps[name] = createListener(id, name);
+		}
+
+		domHost.updateProps(
+			el,
+			name in oldProps ? { [name]: oldProps[name] } : {},
+			name in newProps ? { [name]: newProps[name] } : {}
+		);
+		elementProps.set(el, newProps);
+	};
+
+	const applyPatch = (patch: TPatch): void => {
+		switch (patch.op) {
+			case 'create':
+				addNode(
+					patch.id,
+					patch.kind === 'element'
+						? domHost.createElement(patch.tagName, getNode(patch.parent))
+						: patch.kind === 'text'
+							? domHost.createText(patch.text)
+							: domHost.createComment(patch.text)
+				);
+				break;
+			case 'setProp':
+				setProp(patch.id, patch.name, patch.value);
+				break;
+			case 'insert':
+				domHost.insertBefore(
+					getNode(patch.parent),
+					getNode(patch.id),
+					patch.before === null ? null : getNode(patch.before)
+				);
+				break;
+			case 'remove': {
+				const node = getNode(patch.id);
+				domHost.removeChild(getNode(patch.parent), node);
+				releaseNode(node);
+				break;
+			}
+			case 'setText':
+				domHost.setText(getNode(patch.id), patch.text);
+				break;
+		}
+	};
+
+	const onMessage = ({ data }: MessageEvent<TWorkerMessage>): void => {
+		if (data.type === 'patches') {
+			for (const patch of data.patches) {
+				applyPatch(patch);
+			}
+		}
+	};
+
+	// Events of the rendered elements are delegated to the container
+	delegateEvents(container);
+	worker.addEventListener('message', onMessage);
+
+	return () => {
+		worker.removeEventListener('message', onMessage);
+		worker.terminate();
+		container.replaceChildren();
+	};
+};
+
+type TWorkerViewProps = {
+	// Start the Worker rendering the content, e.g.
+	// () => new Worker(new URL('./App.worker.ts', import.meta.url))
+	createWorker: () => Worker;
+};
+
+/**
+ * Component displaying what a Worker renders
+ * Without a DOM it renders nothing, the Worker starts in the browser
+ */
+export class WorkerView extends Component {
+	private stopWorker: (() => void) | null = null;
+	private destroyed = false;
+
+	constructor(props: TWorkerViewProps = {} as TWorkerViewProps) {
+		super(props, 'worker-view');
+	}
+
+	protected render(): void {
+		if (this.stopWorker || this.destroyed || !canUseDOM) {
+			return;
+		}
+
+		// Started once the element is final, hydrating swaps it after render
+		this.stopWorker = () => {};
+		scheduleImmediate(() => {
+			if (!this.destroyed) {
+				const { createWorker } = this.props as TWorkerViewProps;
+				this.stopWorker = mountWorker(createWorker(), this.element);
+			}
+		});
+	}
+
+	/**
+	 * Terminate the Worker when the component is destroyed
+	 */
+	public override destroy(): void {
+		this.destroyed = true;
+		if (this.stopWorker) {
+			this.stopWorker();
+			this.stopWorker = null;
+		}
+		super.destroy();
+	}
+}
@@ -0,0 +1,57 @@
+/**
+ * Messages between a component tree rendered in a Worker and the main thread
+ * The Worker posts the changes of each render as a list of patches, the main
+ * thread applies them to the DOM and posts DOM events back.
+ */
+
+// Id of the container the Worker renders into, nodes get increasing ids
+export const ROOT_NODE_ID = 0;
+
+/**
+ * Change to apply to the DOM, nodes are referenced by id
+ */
+export type TPatch =
+	// Create an element, its parent decides e.g. its namespace
+	| {
+			op: 'create';
+			id: number;
+			kind: 'element';
+			tagName: string;
+			parent: number;
+	  }
+	// Create a text node, or a comment used as anchor of a fragment
+	| { op: 'create'; id: number; kind: 'text' | 'comment'; text: string }
+	// Set a prop of an element, undefined removes it. Event props only
+	// have the value true when a handler is set, it stays in the Worker.
+	| { op: 'setProp'; id: number; name: string; value: any }
+	// Insert (or move) a node before another one, null appends it
+	| { op: 'insert'; parent: number; id: number; before: number | null }
+	// Remove a node, the ids of its subtree are released
+	| { op: 'remove'; parent: number; id: number }
+	| { op: 'setText'; id: number; text: string };
+
+/**
+ * Serializable copy of a DOM event
+ */
+export type TSerializedEvent = {
+	type: string;
+	// State of the element the event was dispatched on
+	target: {
+		value?: string;
+		checked?: boolean;
+	};
+	// Primitive fields of keyboard, mouse and wheel events, if present
+	[field: string]: any;
+};
+
+// Message posted by the Worker
+export type TWorkerMessage = { type: 'patches'; patches: TPatch[] };
+
+// Message posted by the main thread
+export type TMainMessage = {
+	type: 'event';
+	// Element whose handler is called, and the prop of the handler
+	id: number;
+	name: string;
+	event: TSerializedEvent;
+};
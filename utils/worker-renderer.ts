@@ -0,0 +1,270 @@
+/**
+ * Rendering a component tree inside a Worker
+ * The reconciler runs in the Worker against a host that records every change
+ * as a serializable patch instead of touching a DOM, which the Worker
+ * doesn't have. The main thread applies the patches (see worker-applier.ts)
+ * and posts DOM events back to the handlers kept here.
+ */
+
+import { Component, TErrorPhase, onUpdateRequest } from './component';
+import { DOM_PROPERTIES, isEventProp } from './dom-host';
+import { scheduleTask } from './scheduler';
+import { THostConfig, createRenderer } from './vdom';
+import {
+	ROOT_NODE_ID,
+	TMainMessage,
+	TPatch,
+	TSerializedEvent,
+	TWorkerMessage,
+} from './worker-protocol';
+
+// Node of the tree mirrored by the main thread
+type TWorkerNode = {
+	id: number;
+	parent: TWorkerNode | null;
+	children: TWorkerNode[];
+	// Event handlers of an element, by prop name
+	handlers: Map<string, (event: any) => void>;
+};
+
+// The part of the Worker's global scope used here
+type TWorkerScope = {
+	postMessage(message: TWorkerMessage): void;
+	addEventListener(
+		type: 'message',
+		listener: (event: MessageEvent<TMainMessage>) => void
+	): void;
+};
+
+/**
+ * Create a host recording its changes as patches
+ */
+const createPatchHost = () => {
+	const patches: TPatch[] = [];
+	const nodes = new Map<number, TWorkerNode>();
+	let nextId = ROOT_NODE_ID + 1;
+
+	const createNode = (id: number): TWorkerNode => {
+		const node: TWorkerNode = {
+			id,
+			parent: null,
+			children: [],
+			handlers: new Map(),
+		};
+		nodes.set(id, node);
+		return node;
+	};
+
+	/**
+	 * Forget a removed node and its subtree, like the main thread does
+	 */
+	const releaseNode = (node: TWorkerNode): void => {
+		nodes.delete(node.id);
+		for (const child of node.children) {
+			releaseNode(child);
+		}
+	};
+
+	const detach = (node: TWorkerNode): void => {
+		if (node.parent) {
+			const siblings = node.parent.children;
+			siblings.splice(siblings.indexOf(node), 1);
+			node.parent = null;
+		}
+	};
+
+	/**
+	 * Record a prop change, event handlers stay here
+	 */
+	const setProp = (el: TWorkerNode, name: string, value: any): void => {
+		if (isEventProp(name)) {
+			const hadHandler = el.handlers.has(name);
+			if (typeof value === 'function') {
+				el.handlers.set(name, value);
+			} else {
+				el.handlers.delete(name);
+			}
+
+			// Only adding or removing the handler changes the DOM
+			if (hadHandler !== el.handlers.has(name)) {
+				patches.push({
+					op: 'setProp',
+					id: el.id,
+					name,
+					value: el.handlers.has(name) || undefined,
+				});
+			}
+			return;
+		}
+
+		patches.push({ op: 'setProp', id: el.id, name, value });
+	};
+
+	const host: THostConfig<TWorkerNode> = {
+		createElement: (tagName, parent) => {
+			const node = createNode(nextId++);
+			patches.push({
+				op: 'create',
+				id: node.id,
+				kind: 'element',
+				tagName,
+				parent: parent.id,
+			});
+			return node;
+		},
+		createText: (text) => {
+			const node = createNode(nextId++);
+			patches.push({ op: 'create', id: node.id, kind: 'text', text });
+			return node;
+		},
+		createComment: (text) => {
+			const node = createNode(nextId++);
+			patches.push({ op: 'create', id: node.id, kind: 'comment', text });
+			return node;
+		},
+		setText: (node, text) => {
+			patches.push({ op: 'setText', id: node.id, text });
+		},
+		insertBefore: (parent, node, before) => {
+			detach(node);
+			const index = before
+				? parent.children.indexOf(before)
+				: parent.children.length;
+			parent.children.splice(index, 0, node);
+			node.parent = parent;
+			patches.push({
+				op: 'insert',
+				parent: parent.id,
+				id: node.id,
+				before: before ? before.id : null,
+			});
+		},
+		removeChild: (parent, node) => {
+			detach(node);
+			releaseNode(node);
+			patches.push({ op: 'remove', parent: parent.id, id: node.id });
+		},
+		parentNode: (node) => node.parent,
+		nextSibling: (node) => {
+			if (!node.parent) {
+				return null;
+			}
+			const siblings = node.parent.children;
+			return siblings[siblings.indexOf(node) + 1] || null;
+		},
+		setProps: (el, props) => {
+			for (const [name, value] of Object.entries(props)) {
+				// Keys and refs are not rendered
+				if (name !== 'key' && name !== 'ref') {
+					setProp(el, name, value);
+				}
+			}
+		},
+		updateProps: (el, oldProps, newProps) => {
+			for (const name of Object.keys(oldProps)) {
+				if (!(name in newProps) && name !== 'key' && name !== 'ref') {
+					setProp(el, name, undefined);
+				}
+			}
+			for (const [name, value] of Object.entries(newProps)) {
+				if (name === 'key' || name === 'ref') {
+					continue;
+				}
+				// Live properties are sent on every render, since the user
+				// may have changed them on the main thread since the last one
+				if (oldProps[name] !== value || DOM_PROPERTIES.has(name)) {
+					setProp(el, name, value);
+				}
+			}
+		},
+		resolvePortalTarget: () => {
+			throw new Error('Portals cannot be rendered in a Worker');
+		},
+	};
+
+	return {
+		host,
+		root: createNode(ROOT_NODE_ID),
+		getNode: (id: number) => nodes.get(id),
+		// Take the patches recorded since the last call
+		takePatches: () => patches.splice(0, patches.length),
+	};
+};
+
+/**
+ * Create the event passed to a handler in the Worker
+ * It reaches the Worker after the DOM event was dispatched, so it can't be
+ * prevented or stopped from here: use the :prevent and :stop modifiers,
+ * which are applied on the main thread
+ */
+const createWorkerEvent = (event: TSerializedEvent) => ({
+	...event,
+	currentTarget: event.target,
+	preventDefault: () => {
+		console.warn(
+			`preventDefault() has no effect in a Worker, use on${event.type}:prevent`
+		);
+	},
+	stopPropagation: () => {
+		console.warn(
+			`stopPropagation() has no effect in a Worker, use on${event.type}:stop`
+		);
+	},
+});
+
+/**
+ * Render a component tree inside a Worker, for the main thread to display
+ * Call it from the Worker's entry module, e.g.
+ * renderInWorker(() => new PrimeSieve())
+ * Components update like in the browser, each update renders the tree
+ * again and posts the changes to the main thread.
+ */
+export const renderInWorker = (createRoot: () => Component): void => {
+	const scope = self as unknown as TWorkerScope;
+	const { host, root, getNode, takePatches } = createPatchHost();
+	const renderer = createRenderer(host);
+
+	// Created here, so the root renders after the Worker started
+	const component = createRoot();
+	let renderScheduled = false;
+
+	// Errors are reported like those thrown in the browser
+	const guard = (phase: TErrorPhase, work: () => void): void => {
+		try {
+			work();
+		} catch (error) {
+			component.reportError(error, phase);
+		}
+	};
+
+	const render = (): void => {
+		renderScheduled = false;
+		renderer.render(component.renderToVNode(), root);
+
+		const patches = takePatches();
+		if (patches.length > 0) {
+			scope.postMessage({ type: 'patches', patches });
+		}
+	};
+
+	// Updates of components in the tree render it once in the next frame
+	onUpdateRequest(() => {
+		if (!renderScheduled) {
+			renderScheduled = true;
+			scheduleTask(() => guard('render', render));
+		}
+	});
+
+	scope.addEventListener('message', ({ data }) => {
+		if (data.type !== 'event') {
+			return;
+		}
+
+		const handler = getNode(data.id)?.handlers.get(data.name);
+		if (handler) {
+			guard('event', () => handler(createWorkerEvent(data.event)));
+		}
+	});
+
+	guard('render', render);
+};
@@ -24,6 +24,8 @@ module.exports = {
 		filename: '[name].[contenthash].js',
 		chunkFilename: '[name].[contenthash].js',
 		path: path.resolve(__dirname, 'dist'),
+		// Absolute, so prerendered pages in subdirectories find the chunks
+		publicPath: '/',
 		clean: true, // Clean the output directory before emit
 	},
 	optimization: {
@@ -45,8 +47,10 @@ module.exports = {
 		new CopyWebpackPlugin({
 			patterns: [
 				{ from: 'manifest.json', to: '' },
-				{ from: 'service-worker.js', to: '' },
+				// Not minified, the prerender step writes its precache list
+				{ from: 'service-worker.js', to: '', info: { minimized: true } },
 				{ from: 'offline.html', to: '' },
+				{ from: 'screens', to: 'screens' },
 				// We'll need to create these icon assets later
 				// { from: 'icons', to: 'icons' }
 			],
@@ -0,0 +1,30 @@
+const path = require('path');
+const webpack = require('webpack');
+
+// Bundles the prerender step (prerender.ts) to run in Node after the
+// client build, it renders every route into dist
+module.exports = {
+	entry: './prerender.ts',
+	target: 'node',
+	module: {
+		rules: [
+			{
+				test: /\.tsx?$/,
+				use: 'ts-loader',
+				exclude: /node_modules/,
+			},
+		],
+	},
+	resolve: {
+		extensions: ['.tsx', '.ts', '.js'],
+	},
+	output: {
+		filename: 'prerender.js',
+		path: path.resolve(__dirname, 'build'),
+		clean: true,
+	},
+	plugins: [
+		// Lazy pages are bundled in, there is nothing to split in Node
+		new webpack.optimize.LimitChunkCountPlugin({ maxChunks: 1 }),
+	],
+};